@@ -6,9 +6,10 @@ import { Mixer } from './components/Mixer';
 import { Transport } from './components/Transport';
 import { FileManager } from './components/FileManager';
 import { Header } from './components/Header';
+import { SongEditor } from './components/SongEditor';
 import { useAudioEngine } from './hooks/useAudioEngine';
 
-export type View = 'pads' | 'sequencer' | 'waveform' | 'mixer';
+export type View = 'pads' | 'sequencer' | 'song' | 'waveform' | 'mixer';
 
 function App() {
   const [currentView, setCurrentView] = useState<View>('pads');
@@ -60,6 +61,12 @@ function App() {
             selectedPad={selectedPad}
           />
         );
+      case 'song':
+        return (
+          <SongEditor
+            audioEngine={audioEngine}
+          />
+        );
       case 'waveform':
         return (
           <WaveformEditor
@@ -1,21 +1,188 @@
 import * as Tone from 'tone';
+import {
+  SerializedProject,
+  SerializedSample,
+  base64ToArrayBuffer,
+  getSerializedLayers,
+  isSerializedProject,
+  serializeProject
+} from './projectFormat';
+import { encodeWav, encodeWavBlob } from './wav';
+import { ZipEntry, createZip } from '../utils/zip';
+import { createRandom } from '../utils/random';
+import { VoicePool } from './VoicePool';
+import {
+  DEFAULT_CUTOFF,
+  DEFAULT_PAD_SETTINGS,
+  FILTER_MOD_OCTAVES,
+  MAX_LAYERS,
+  MAX_PATTERN_LENGTH,
+  MIN_ENVELOPE_TIME,
+  PAD_COUNT,
+  applyVelocityCurve,
+  clampCutoff,
+  changePatternResolution,
+  clampOffset,
+  clampPatternLength,
+  clampSwing,
+  createSample,
+  createSampleLayer,
+  evaluateCondition,
+  fitsTimeSignature,
+  getBeatTicks,
+  getLayerForVelocity,
+  getPitchRate,
+  getResolutionLength,
+  getSamplePitch,
+  getVoiceCount,
+  getRatchetVelocity,
+  hasLayerAudio,
+  createPattern,
+  getStepTicks,
+  getStepsPerBar,
+  getStepsPerBeat,
+  normalizePattern,
+  resizePattern,
+  splitVelocityRanges,
+  updateStepLocks
+} from './pattern';
 
-export interface Sample {
-  id: string;
+// One sample on a pad, trimmed to startTime..endTime (0..1 of the buffer)
+// and played for hits with a velocity inside velocityMin..velocityMax
+export interface SampleLayer {
   name: string;
   buffer: Tone.ToneAudioBuffer | null;
   startTime: number;
   endTime: number;
+  velocityMin: number;
+  velocityMax: number;
+}
+
+export interface Sample {
+  id: string;
+  name: string;
+  // Velocity layers, softest first; a pad always has at least one
+  layers: SampleLayer[];
   volume: number;
   pan: number;
+  // Mute/choke group (0 = none): a hit stops every other pad in the same group
+  chokeGroup: number;
+  // Mono pads cut off their previous hit; poly pads let up to voiceCount hits overlap
+  voiceMode: VoiceMode;
+  voiceCount: number;
+  // Tuning in semitones (coarse) and cents (fine)
+  tuneCoarse: number;
+  tuneFine: number;
+  // Amplitude envelope: attack, decay and release in seconds, sustain level 0..1
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number;
+  // Filter: cutoff in Hz and resonance (Q). The envelope amount (-1..1) sweeps
+  // the cutoff over the attack and decay; velocity (0..1) closes it on soft hits.
+  filterType: FilterType;
+  filterCutoff: number;
+  filterResonance: number;
+  filterEnvAmount: number;
+  filterVelocity: number;
+}
+
+export type FilterType = 'lowpass' | 'highpass' | 'bandpass';
+
+export type VoiceMode = 'mono' | 'poly';
+
+export interface TimeSignature {
+  numerator: number;
+  denominator: number;
 }
 
+// Elektron-style trig condition: 'A:B' plays on the A-th of every B loops
+export type StepCondition =
+  | 'always'
+  | '1:2' | '2:2'
+  | '1:3' | '2:3' | '3:3'
+  | '1:4' | '2:4' | '3:4' | '4:4'
+  | 'fill' | '!fill'
+  | 'first' | '!first';
+
+// How the hits of a ratcheted step change in velocity
+export type RatchetRamp = 'none' | 'up' | 'down';
+
+// Grid live hits snap to: the pattern's own steps or a fixed note value
+export type RecordQuantize = 'step' | StepResolution;
+
+// Overdub adds to the pattern; replace clears what the playhead passes over
+export type RecordMode = 'overdub' | 'replace';
+
+// Bars of clicks before recording starts from a stopped transport
+export type CountInBars = 0 | 1 | 2;
+
+// Pad parameters a step can override ("p-locks")
+export type LockParam = 'pitch' | 'pan' | 'volume' | 'cutoff' | 'sampleStart';
+
+// Pitch in semitones, pan -1..1, volume 0..1, cutoff in Hz, sample start 0..1 of the buffer
+export type StepLocks = Partial<Record<LockParam, number>>;
+
+// How a pad press maps to the velocity it plays at
+export type VelocityCurve = 'linear' | 'log' | 'exp' | 'fixed';
+
+// Note value of one sequencer step ('t' = triplet)
+export type StepResolution = '8n' | '16n' | '32n' | '8t' | '16t';
+
 export interface Pattern {
   id: string;
   name: string;
+  // Number of steps; doesn't have to fill whole bars
   length: number;
+  timeSignature: TimeSignature;
+  resolution: StepResolution;
+  // 50 = straight, up to 75 = heavy shuffle
+  swing: number;
   steps: boolean[][];
   velocities: number[][];
+  // Per-step timing nudge in transport ticks, within half a step of the grid
+  offsets: number[][];
+  // Chance (0-100) that an active step plays
+  probabilities: number[][];
+  conditions: StepCondition[][];
+  // Evenly spaced retriggers within the step (1, 2, 3, 4 or 8)
+  ratchets: number[][];
+  ratchetRamps: RatchetRamp[][];
+  // Parameter overrides for single steps, null when nothing is locked
+  locks: (StepLocks | null)[][];
+}
+
+export type BounceBitDepth = 16 | 24;
+
+export interface BounceOptions {
+  // Patterns rendered back to back, defaults to the current pattern
+  patternIndices?: number[];
+  bitDepth?: BounceBitDepth;
+}
+
+type StepHitCallback = (padIndex: number, velocity: number, time: number, locks: StepLocks | null) => void;
+
+// One hit of an offline render, rolled before rendering starts
+interface RenderHit {
+  padIndex: number;
+  velocity: number;
+  time: number;
+  locks: StepLocks | null;
+}
+
+// What conditional and probable steps are evaluated against
+interface StepContext {
+  // Passes through the pattern since it started playing, from 0
+  loop: number;
+  fill: boolean;
+  random: () => number;
+}
+
+// One slot in the song arrangement: a pattern played a number of times in a row
+export interface SongEntry {
+  id: string;
+  patternId: string;
+  repeats: number;
 }
 
 export interface Project {
@@ -25,53 +192,83 @@ export interface Project {
   patterns: Pattern[];
   currentPattern: number;
   bpm: number;
+  // Missing in projects saved before song mode existed
+  song?: SongEntry[];
 }
 
 export class AudioEngine {
-  private players: Tone.Player[] = [];
+  private voicePools: VoicePool[] = [];
   private panners: Tone.Panner[] = [];
-  private sequence: Tone.Sequence | null = null;
+  private filters: Tone.Filter[] = [];
+  private sequenceEventId: number | null = null;
   private samples: Sample[] = [];
   private patterns: Pattern[] = [];
   private currentPattern = 0;
   private isPlaying = false;
   private isRecording = false;
   private currentStep = 0;
+  private nextStep = 0;
+  private patternStartTicks = 0;
+  private song: SongEntry[] = [];
+  private songMode = false;
+  private songPosition = 0;
+  private songRepeat = 0;
+  private patternLoop = 0;
+  private loopPatternId: string | null = null;
+  private fillActive = false;
   private bpm = 120;
-  private quantization: Tone.Unit.Time = '16n';
+  // How far live hits are pulled onto the grid, in percent
+  private quantizeStrength = 100;
+  private recordQuantize: RecordQuantize = 'step';
+  private recordMode: RecordMode = 'overdub';
+  // `${padIndex}:${step}` of hits recorded in the current take, kept by replace mode
+  private recordedSteps = new Set<string>();
+  // User click sample; the synth click is used when there is none
   private metronome: Tone.Player | null = null;
+  private metronomeSampleName: string | null = null;
+  private clickSynth: Tone.Synth;
+  private metronomeVolume: Tone.Volume;
+  private metronomeEnabled = false;
+  private metronomeLevel = 0.7;
+  private countInBars: CountInBars = 1;
+  private countingIn = false;
+  private countInEventIds: number[] = [];
+  // Erase: while held (or latched on), the playhead removes the steps of held pads
+  private eraseHeld = false;
+  private eraseLatched = false;
+  // Held pads and the velocity they are held at
+  private heldPads = new Map<number, number>();
+  private noteRepeatEnabled = false;
+  private noteRepeatRate: StepResolution = '16n';
+  private noteRepeatEventId: number | null = null;
+  private velocityCurve: VelocityCurve = 'linear';
+  // Full level: every pad press plays at maximum velocity
+  private fullLevel = false;
 
   constructor() {
-    // Initialize 16 players and panners for the pads
-    for (let i = 0; i < 16; i++) {
+    // Initialize voices, filters and panners for every pad in every bank
+    for (let i = 0; i < PAD_COUNT; i++) {
       const panner = new Tone.Panner(0); // Start with center pan
-      const player = new Tone.Player().connect(panner);
+      const filter = new Tone.Filter(DEFAULT_CUTOFF, 'lowpass').connect(panner);
       panner.toDestination();
       
-      player.volume.value = 0; // Start with 0dB (full volume)
-      this.players.push(player);
+      this.voicePools.push(new VoicePool(filter));
+      this.filters.push(filter);
       this.panners.push(panner);
       
       // Initialize empty sample
-      this.samples.push({
-        id: `sample-${i}`,
-        name: `Pad ${i + 1}`,
-        buffer: null,
-        startTime: 0,
-        endTime: 1,
-        volume: 0.8,
-        pan: 0
-      });
+      this.samples.push(createSample(i));
     }
 
     // Initialize default pattern
-    this.patterns.push({
-      id: 'pattern-1',
-      name: 'Pattern 1',
-      length: 16,
-      steps: Array(16).fill(null).map(() => Array(16).fill(false)),
-      velocities: Array(16).fill(null).map(() => Array(16).fill(0.8))
-    });
+    this.patterns.push(createPattern(1));
+
+    // Metronome click
+    this.metronomeVolume = new Tone.Volume(Tone.gainToDb(this.metronomeLevel)).toDestination();
+    this.clickSynth = new Tone.Synth({
+      oscillator: { type: 'square' },
+      envelope: { attack: 0.001, decay: 0.04, sustain: 0, release: 0.01 }
+    }).connect(this.metronomeVolume);
 
     // Set up transport
     Tone.Transport.bpm.value = this.bpm;
@@ -102,20 +299,31 @@ export class AudioEngine {
 
   dispose() {
     this.stop();
-    this.players.forEach(player => player.dispose());
+    this.voicePools.forEach(pool => pool.dispose());
+    this.filters.forEach(filter => filter.dispose());
     this.panners.forEach(panner => panner.dispose());
-    if (this.sequence) {
-      this.sequence.dispose();
-    }
+    this.clearSequence();
     if (this.metronome) {
       this.metronome.dispose();
     }
+    if (this.noteRepeatEventId !== null) {
+      Tone.Transport.clear(this.noteRepeatEventId);
+    }
+    this.clickSynth.dispose();
+    this.metronomeVolume.dispose();
   }
 
-  // Sample management
-  async loadSample(padIndex: number, file: File): Promise<void> {
+  // Sample management. The layer can be an existing one, which is replaced,
+  // or the next free one, which is added and gets a share of the velocity range.
+  async loadSample(padIndex: number, file: File, layerIndex: number = 0): Promise<void> {
+    const { layers } = this.samples[padIndex];
+    if (layerIndex < 0 || layerIndex > layers.length || layerIndex >= MAX_LAYERS) {
+      console.warn(`⚠️ Pad ${padIndex} has no layer ${layerIndex + 1} to load into`);
+      return;
+    }
+
     try {
-      console.log(`🎵 Loading sample for pad ${padIndex}: ${file.name}`);
+      console.log(`🎵 Loading sample for pad ${padIndex}, layer ${layerIndex + 1}: ${file.name}`);
       console.log(`📁 File size: ${(file.size / 1024).toFixed(2)} KB`);
       console.log(`📁 File type: ${file.type}`);
       
@@ -155,40 +363,27 @@ export class AudioEngine {
       
       console.log(`✓ Buffer ready: duration=${buffer.duration}s, channels=${buffer.numberOfChannels}, sampleRate=${buffer.sampleRate}Hz`);
       
-      // Update sample info
-      this.samples[padIndex] = {
-        ...this.samples[padIndex],
+      // Update sample info; the first layer names the pad
+      const sample = this.samples[padIndex];
+      const layer: SampleLayer = {
+        ...(sample.layers[layerIndex] ?? createSampleLayer()),
         name: file.name,
         buffer,
+        startTime: 0,
         endTime: 1.0 // Use normalized time (0-1) initially
       };
+      const newLayers = sample.layers.slice();
+      newLayers[layerIndex] = layer;
+      this.samples[padIndex] = {
+        ...sample,
+        name: layerIndex === 0 ? file.name : sample.name,
+        layers: newLayers.length > sample.layers.length ? splitVelocityRanges(newLayers) : newLayers
+      };
 
-      // Dispose old player and create new one with the buffer
-      console.log('🔧 Creating new player with buffer...');
-      this.players[padIndex].dispose();
-      
-      // Create new player with the buffer explicitly
-      const newPlayer = new Tone.Player(buffer);
-      this.players[padIndex] = newPlayer;
-      
-      // Ensure the panner is connected to destination (in case it got disconnected)
-      console.log('🔧 Ensuring panner is connected to destination...');
-      this.panners[padIndex].toDestination();
-      
-      // Connect the player to the existing panner
-      newPlayer.connect(this.panners[padIndex]);
-      
-      // Set volume
-      newPlayer.volume.value = Tone.gainToDb(this.samples[padIndex].volume);
-      
-      // Verify the player has the buffer and connections
-      console.log(`   - New player buffer set: ${!!newPlayer.buffer}`);
-      console.log(`   - New player loaded: ${newPlayer.loaded}`);
-      console.log(`   - Player connected to panner: ${newPlayer.numberOfOutputs > 0}`);
-      console.log(`   - Panner connected to destination: ${this.panners[padIndex].numberOfOutputs > 0}`);
+      this.syncVoices(padIndex);
       
       console.log(`✓ Player created and connected:`);
-      console.log(`   - Volume: ${this.players[padIndex].volume.value}dB`);
+      console.log(`   - Volume: ${this.voicePools[padIndex].getVoices()[0].volume.value}dB`);
       console.log(`   - Connected to panner: ${this.panners[padIndex].pan.value}`);
       console.log(`   - Panner connected to destination: ${this.panners[padIndex].numberOfOutputs > 0}`);
       
@@ -212,6 +407,19 @@ export class AudioEngine {
     }
   }
 
+  // Match a pad's voices to its voice mode and volume
+  private syncVoices(padIndex: number) {
+    const pool = this.voicePools[padIndex];
+    pool.resize(getVoiceCount(this.samples[padIndex]));
+
+    // Ensure the panner is connected to destination (in case it got disconnected)
+    this.panners[padIndex].toDestination();
+    pool.getVoices().forEach(voice => {
+      voice.volume.value = Tone.gainToDb(this.samples[padIndex].volume);
+    });
+    this.filters[padIndex].type = this.samples[padIndex].filterType;
+  }
+
   // Test method to verify audio is working
   testPadAudio(padIndex: number) {
     console.log(`🧪 Testing audio for pad ${padIndex}`);
@@ -224,7 +432,7 @@ export class AudioEngine {
   debugAudioChain(padIndex: number = 0) {
     console.log(`🔧 Audio Chain Debug for Pad ${padIndex}:`);
     
-    const player = this.players[padIndex];
+    const voice = this.voicePools[padIndex].getVoices()[0];
     const panner = this.panners[padIndex];
     const sample = this.samples[padIndex];
     
@@ -233,17 +441,17 @@ export class AudioEngine {
     console.log(`   - Sample Rate: ${Tone.getContext().sampleRate}Hz`);
     console.log(`   - Current Time: ${Tone.getContext().currentTime.toFixed(3)}s`);
     
+    const { buffer } = sample.layers[0];
     console.log(`2. Sample:`);
-    console.log(`   - Has buffer: ${!!sample.buffer}`);
-    console.log(`   - Buffer duration: ${sample.buffer?.duration || 'N/A'}s`);
+    console.log(`   - Layers: ${sample.layers.length}`);
+    console.log(`   - Has buffer: ${!!buffer}`);
+    console.log(`   - Buffer duration: ${buffer?.duration || 'N/A'}s`);
     console.log(`   - Sample volume: ${sample.volume}`);
     console.log(`   - Sample pan: ${sample.pan}`);
     
-    console.log(`3. Player:`);
-    console.log(`   - State: ${player.state}`);
-    console.log(`   - Loaded: ${player.loaded}`);
-    console.log(`   - Has buffer: ${!!player.buffer}`);
-    console.log(`   - Volume: ${player.volume.value}dB`);
+    console.log(`3. Voice:`);
+    console.log(`   - State: ${voice.state}`);
+    console.log(`   - Volume: ${voice.volume.value}dB`);
     
     console.log(`4. Panner:`);
     console.log(`   - Pan value: ${panner.pan.value}`);
@@ -256,9 +464,9 @@ export class AudioEngine {
     
     // Test if player can connect to destination directly (bypass panner)
     console.log(`6. Testing direct connection...`);
-    if (sample.buffer) {
+    if (buffer) {
       try {
-        const testPlayer = new Tone.Player(sample.buffer).toDestination();
+        const testPlayer = new Tone.Player(buffer).toDestination();
         testPlayer.volume.value = -6; // Quieter test
         testPlayer.start();
         console.log(`   ✓ Direct connection test started`);
@@ -312,24 +520,54 @@ export class AudioEngine {
       [property]: value
     };
 
-    // Update player properties
-    const player = this.players[padIndex];
+    // Update voice and channel properties
+    const pool = this.voicePools[padIndex];
     const panner = this.panners[padIndex];
     
     if (property === 'volume') {
-      player.volume.value = Tone.gainToDb(value);
+      pool.getVoices().forEach(voice => {
+        voice.volume.value = Tone.gainToDb(value);
+      });
     } else if (property === 'pan') {
       panner.pan.value = value;
+    } else if (property === 'voiceMode' || property === 'voiceCount') {
+      pool.resize(getVoiceCount(this.samples[padIndex]));
+    } else if (property === 'filterType') {
+      this.filters[padIndex].type = value;
     }
   }
 
+  setLayerProperty<K extends keyof SampleLayer>(padIndex: number, layerIndex: number, property: K, value: SampleLayer[K]) {
+    const sample = this.samples[padIndex];
+    if (!sample.layers[layerIndex]) return;
+    this.samples[padIndex] = {
+      ...sample,
+      layers: sample.layers.map((layer, index) => (index === layerIndex ? { ...layer, [property]: value } : layer))
+    };
+  }
+
+  // Removes a layer and shares the velocity range out between the rest.
+  // The last layer is emptied rather than removed.
+  removeSampleLayer(padIndex: number, layerIndex: number) {
+    const sample = this.samples[padIndex];
+    if (!sample.layers[layerIndex]) return;
+    const remaining = sample.layers.filter((_, index) => index !== layerIndex);
+    this.samples[padIndex] = {
+      ...sample,
+      name: remaining[0]?.name || `Pad ${padIndex + 1}`,
+      layers: remaining.length > 0 ? splitVelocityRanges(remaining) : [createSampleLayer()]
+    };
+    this.voicePools[padIndex].stop();
+  }
+
   // Pad triggering
-  triggerPad(padIndex: number, velocity: number = 0.8, time?: Tone.Unit.Time) {
+  triggerPad(padIndex: number, velocity: number = 0.8, time?: Tone.Unit.Time, locks?: StepLocks | null) {
     console.log(`🎵 Attempting to trigger pad ${padIndex} with velocity ${velocity}`);
     
-    const sample = this.samples[padIndex];
-    if (!sample.buffer) {
-      console.warn(`⚠️ No sample loaded for pad ${padIndex}`);
+    const sample = this.getLockedSample(this.samples[padIndex], locks);
+    const layer = getLayerForVelocity(sample, velocity);
+    if (!layer?.buffer) {
+      console.warn(`⚠️ No sample loaded for pad ${padIndex} at velocity ${velocity}`);
       return;
     }
 
@@ -339,44 +577,38 @@ export class AudioEngine {
         console.log('⚠️ Audio context not running, starting and retrying...');
         Tone.start().then(() => {
           console.log('✓ Audio context started, retrying trigger');
-          this.triggerPad(padIndex, velocity, time);
+          this.triggerPad(padIndex, velocity, time, locks);
         });
         return;
       }
 
-      const player = this.players[padIndex];
+      const voice = this.voicePools[padIndex].next();
       
-      // Debug player state
-      console.log(`🔍 Player debugging:`);
-      console.log(`   - Player state: ${player.state}`);
-      console.log(`   - Player loaded: ${player.loaded}`);
-      console.log(`   - Player buffer: ${player.buffer ? 'exists' : 'null'}`);
-      console.log(`   - Player buffer duration: ${player.buffer?.duration || 'N/A'}`);
+      // Debug voice state
+      console.log(`🔍 Voice debugging:`);
+      console.log(`   - Voice state: ${voice.state}`);
+      console.log(`   - Buffer loaded: ${layer.buffer.loaded}`);
+      console.log(`   - Buffer duration: ${layer.buffer.duration || 'N/A'}`);
       
-      // Ensure buffer duration is valid
-      const bufferDuration = sample.buffer.duration;
-      if (!bufferDuration || isNaN(bufferDuration) || bufferDuration <= 0) {
-        console.warn(`❌ Invalid buffer duration for pad ${padIndex}: ${bufferDuration}`);
-        return;
-      }
-
       // Calculate start time and duration with validation
-      const startTime = Math.max(0, sample.startTime * bufferDuration);
-      const endTime = Math.min(bufferDuration, sample.endTime * bufferDuration);
-      const duration = endTime - startTime;
-
-      // Validate calculated values
-      if (isNaN(startTime) || isNaN(duration) || duration <= 0) {
-        console.warn(`❌ Invalid timing values for pad ${padIndex}: startTime=${startTime}, duration=${duration}`);
+      const slice = this.getSliceTiming(this.getLockedLayer(layer, locks));
+      if (!slice) {
+        console.warn(`❌ Invalid slice timing for pad ${padIndex} (buffer duration: ${layer.buffer.duration})`);
         return;
       }
+      const { startTime, duration } = slice;
 
       // Set volume before playing (ensure it's audible)
-      const finalVolume = Math.max(-60, Tone.gainToDb(velocity * sample.volume));
-      player.volume.value = finalVolume;
+      const finalVolume = this.getHitVolume(sample, velocity);
+      if (time !== undefined) {
+        // Scheduled hits (ratchets) can be queued ahead, each with its own level
+        voice.volume.setValueAtTime(finalVolume, time);
+      } else {
+        voice.volume.value = finalVolume;
+      }
       
       console.log(`🎵 Triggering pad ${padIndex}:`);
-      console.log(`   - Player state before: ${player.state}`);
+      console.log(`   - Voice state before: ${voice.state}`);
       console.log(`   - Final volume: ${finalVolume}dB (velocity: ${velocity}, sample volume: ${sample.volume})`);
       console.log(`   - Start time: ${startTime.toFixed(3)}s`);
       console.log(`   - Duration: ${duration.toFixed(3)}s`);
@@ -384,48 +616,37 @@ export class AudioEngine {
       console.log(`   - Master volume: ${Tone.getDestination().volume.value}dB`);
       console.log(`   - Panner settings: pan=${this.panners[padIndex].pan.value}`);
 
-      // Stop any currently playing instance
-      if (player.state === 'started') {
-        player.stop();
-        console.log(`   - Stopped previous playback`);
-      }
+      const hitTime = time ?? Tone.now();
+      const rate = this.getHitRate(sample, locks);
+      this.applyHitParams(this.filters[padIndex], this.panners[padIndex], sample, hitTime, velocity);
+      this.applyEnvelope(voice.envelope, sample, hitTime, duration / rate);
+      this.chokePads(padIndex, sample.chokeGroup, this.voicePools, hitTime);
 
-      // Start playback with correct Tone.js API
-      if (time) {
-        // When time is specified (for sequencer)
-        player.start(time, startTime, duration);
-        console.log(`   - Started with scheduled time: ${time}`);
-      } else {
-        // When triggered immediately - use "+0" instead of undefined
-        player.start("+0", startTime, duration);
-        console.log(`   - Started immediately with offset: ${startTime}s, duration: ${duration}s`);
-      }
-      
-      // Add event listeners to track playback
-      player.onstop = () => {
-        console.log(`🔇 Pad ${padIndex} playback stopped`);
-      };
+      // Starting a voice cuts off whatever it is playing (on a mono pad, the
+      // previous hit) at the new hit's time, so hits already queued for
+      // earlier in the step still play
+      voice.start(layer.buffer, hitTime, startTime, duration, rate);
+      console.log(`   - Started at ${hitTime} with offset: ${startTime}s, duration: ${duration}s, rate: ${rate}`);
       
       console.log(`✅ Pad ${padIndex} triggered successfully`);
-      console.log(`   - Player state after: ${player.state}`);
+      console.log(`   - Voice state after: ${voice.state}`);
       
       // Additional debugging: Check if audio is actually flowing
       setTimeout(() => {
-        console.log(`🔍 Player state after 50ms: ${player.state}`);
-        if (player.state !== 'started') {
-          console.error(`❌ Player did not start! Current state: ${player.state}`);
+        console.log(`🔍 Voice state after 50ms: ${voice.state}`);
+        if (voice.state !== 'started') {
+          console.error(`❌ Voice did not start! Current state: ${voice.state}`);
           
           // Try to diagnose why it didn't start
           console.log('🔧 Diagnostic information:');
           console.log(`   - Audio context state: ${Tone.getContext().state}`);
           console.log(`   - Audio context sample rate: ${Tone.getContext().sampleRate}`);
-          console.log(`   - Buffer exists: ${!!player.buffer}`);
-          console.log(`   - Buffer loaded: ${player.loaded}`);
+          console.log(`   - Buffer loaded: ${layer.buffer?.loaded}`);
           console.log(`   - Master destination: ${Tone.getDestination()}`);
           console.log(`   - Output connected: ${this.panners[padIndex].numberOfOutputs > 0}`);
           
         } else {
-          console.log(`🔊 Player is running!`);
+          console.log(`🔊 Voice is running!`);
         }
       }, 50);
 
@@ -438,12 +659,109 @@ export class AudioEngine {
       });
     }
 
-    // Record if recording is enabled
-    if (this.isRecording && time === undefined) {
+    // Record if recording is enabled (pads pressed to erase aren't recorded)
+    if (this.isRecording && time === undefined && !this.getEraseActive()) {
       this.recordStep(padIndex, velocity);
     }
   }
 
+  // The pad's settings with a step's parameter locks applied on top
+  private getLockedSample(sample: Sample, locks?: StepLocks | null): Sample {
+    if (!locks) return sample;
+    return {
+      ...sample,
+      volume: locks.volume ?? sample.volume,
+      pan: locks.pan ?? sample.pan,
+      filterCutoff: locks.cutoff ?? sample.filterCutoff
+    };
+  }
+
+  // A sample start lock moves the start of whichever layer the hit plays
+  private getLockedLayer(layer: SampleLayer, locks?: StepLocks | null): SampleLayer {
+    if (locks?.sampleStart === undefined) return layer;
+    return { ...layer, startTime: Math.min(locks.sampleStart, layer.endTime) };
+  }
+
+  // Pan and filter are set at every hit's time so a locked value doesn't
+  // carry over into the next unlocked one
+  private applyHitParams(filter: Tone.Filter, panner: Tone.Panner, sample: Sample, time: Tone.Unit.Time, velocity: number) {
+    panner.pan.setValueAtTime(sample.pan, time);
+    this.applyFilter(filter, sample, filter.toSeconds(time), velocity);
+  }
+
+  // A pitch lock shifts the pad's tuning
+  private getHitRate(sample: Sample, locks?: StepLocks | null): number {
+    return getPitchRate(getSamplePitch(sample) + (locks?.pitch ?? 0));
+  }
+
+  // The filter is shared by a pad's voices, so each hit restarts its sweep.
+  // Its type can't be scheduled, so it follows the pad setting instead.
+  private applyFilter(filter: Tone.Filter, sample: Sample, time: number, velocity: number) {
+    const cutoff = clampCutoff(
+      sample.filterCutoff * Math.pow(2, -FILTER_MOD_OCTAVES * sample.filterVelocity * (1 - velocity))
+    );
+
+    filter.Q.setValueAtTime(sample.filterResonance, time);
+    filter.frequency.cancelScheduledValues(time);
+    filter.frequency.setValueAtTime(cutoff, time);
+    if (sample.filterEnvAmount !== 0) {
+      const peak = clampCutoff(cutoff * Math.pow(2, FILTER_MOD_OCTAVES * sample.filterEnvAmount));
+      const attackEnd = time + Math.max(MIN_ENVELOPE_TIME, sample.attack);
+      filter.frequency.exponentialRampToValueAtTime(peak, attackEnd);
+      filter.frequency.exponentialRampToValueAtTime(cutoff, attackEnd + Math.max(MIN_ENVELOPE_TIME, sample.decay));
+    }
+  }
+
+  // Opens the voice's envelope for a hit and releases it so the hit has
+  // faded out by the end of the slice (length in seconds of playback)
+  private applyEnvelope(envelope: Tone.AmplitudeEnvelope, sample: Sample, time: Tone.Unit.Time, length: number) {
+    const start = envelope.toSeconds(time);
+    envelope.set({
+      attack: Math.max(MIN_ENVELOPE_TIME, sample.attack),
+      decay: Math.max(MIN_ENVELOPE_TIME, sample.decay),
+      sustain: sample.sustain,
+      release: Math.max(MIN_ENVELOPE_TIME, sample.release)
+    });
+    envelope.triggerAttack(start);
+    envelope.triggerRelease(start + this.getReleaseStart(sample, length));
+  }
+
+  // When, in seconds into a hit, its envelope starts to release
+  private getReleaseStart(sample: Sample, length: number): number {
+    return Math.max(sample.attack, length - sample.release);
+  }
+
+  // Stops the other pads in a choke group, e.g. a closed hi-hat cutting off the open one
+  private chokePads(padIndex: number, chokeGroup: number, pools: (VoicePool | null)[], time: Tone.Unit.Time) {
+    if (!chokeGroup) return;
+    this.samples.forEach((sample, index) => {
+      if (index !== padIndex && sample.chokeGroup === chokeGroup) {
+        pools[index]?.stop(time);
+      }
+    });
+  }
+
+  // Offset and duration (in seconds) of the trimmed region of a layer
+  private getSliceTiming(layer: SampleLayer): { startTime: number; duration: number } | null {
+    const bufferDuration = layer.buffer?.duration;
+    if (!bufferDuration || isNaN(bufferDuration) || bufferDuration <= 0) {
+      return null;
+    }
+
+    const startTime = Math.max(0, layer.startTime * bufferDuration);
+    const endTime = Math.min(bufferDuration, layer.endTime * bufferDuration);
+    const duration = endTime - startTime;
+
+    if (isNaN(startTime) || isNaN(duration) || duration <= 0) {
+      return null;
+    }
+    return { startTime, duration };
+  }
+
+  private getHitVolume(sample: Sample, velocity: number): number {
+    return Math.max(-60, Tone.gainToDb(velocity * sample.volume));
+  }
+
   // Pattern management
   getCurrentPattern(): Pattern {
     return this.patterns[this.currentPattern];
@@ -457,22 +775,64 @@ export class AudioEngine {
   }
 
   addPattern(): Pattern {
-    const newPattern: Pattern = {
-      id: `pattern-${this.patterns.length + 1}`,
-      name: `Pattern ${this.patterns.length + 1}`,
-      length: 16,
-      steps: Array(16).fill(null).map(() => Array(16).fill(false)),
-      velocities: Array(16).fill(null).map(() => Array(16).fill(0.8))
-    };
+    // New patterns follow the current pattern's time signature and resolution
+    const { timeSignature, resolution } = this.getCurrentPattern();
+    const newPattern = createPattern(
+      this.patterns.length + 1,
+      getStepsPerBar(timeSignature, resolution),
+      timeSignature,
+      resolution
+    );
     
     this.patterns.push(newPattern);
     return newPattern;
   }
 
+  setPatternLength(length: number) {
+    this.patterns[this.currentPattern] = resizePattern(this.getCurrentPattern(), clampPatternLength(length));
+  }
+
+  setPatternBars(bars: number) {
+    const pattern = this.getCurrentPattern();
+    this.setPatternLength(Math.max(1, Math.round(bars)) * getStepsPerBar(pattern.timeSignature, pattern.resolution));
+  }
+
+  // Changing the meter keeps the bar count (rounded up) and reflows the length
+  // Refused (returning false) when the pattern's steps don't divide a bar
+  setPatternTimeSignature(numerator: number, denominator: number): boolean {
+    const pattern = this.getCurrentPattern();
+    const timeSignature = { numerator, denominator };
+    if (!fitsTimeSignature(timeSignature, pattern.resolution)) {
+      return false;
+    }
+    const bars = Math.max(1, Math.ceil(pattern.length / getStepsPerBar(pattern.timeSignature, pattern.resolution)));
+
+    this.patterns[this.currentPattern] = resizePattern(
+      { ...pattern, timeSignature },
+      bars * getStepsPerBar(timeSignature, pattern.resolution)
+    );
+    return true;
+  }
+
+  // Refused (returning false) when the new steps don't divide a bar, or when
+  // the pattern would need more steps than a pattern can hold at the new
+  // resolution, as the hits past them would be lost
+  setPatternResolution(resolution: StepResolution): boolean {
+    const pattern = this.getCurrentPattern();
+    if (!fitsTimeSignature(pattern.timeSignature, resolution) || getResolutionLength(pattern, resolution) > MAX_PATTERN_LENGTH) {
+      return false;
+    }
+    this.patterns[this.currentPattern] = changePatternResolution(pattern, resolution);
+    return true;
+  }
+
+  setPatternSwing(swing: number) {
+    this.patterns[this.currentPattern] = { ...this.getCurrentPattern(), swing: clampSwing(swing) };
+  }
+
   toggleStep(padIndex: number, stepIndex: number) {
     const pattern = this.getCurrentPattern();
     pattern.steps[padIndex][stepIndex] = !pattern.steps[padIndex][stepIndex];
-    this.updateSequence();
   }
 
   setStepVelocity(padIndex: number, stepIndex: number, velocity: number) {
@@ -480,10 +840,145 @@ export class AudioEngine {
     pattern.velocities[padIndex][stepIndex] = velocity;
   }
 
+  setStepOffset(padIndex: number, stepIndex: number, offset: number) {
+    const pattern = this.getCurrentPattern();
+    pattern.offsets[padIndex][stepIndex] = clampOffset(offset, pattern.resolution);
+  }
+
+  setStepProbability(padIndex: number, stepIndex: number, probability: number) {
+    const pattern = this.getCurrentPattern();
+    pattern.probabilities[padIndex][stepIndex] = Math.min(100, Math.max(0, Math.round(probability)));
+  }
+
+  setStepCondition(padIndex: number, stepIndex: number, condition: StepCondition) {
+    const pattern = this.getCurrentPattern();
+    pattern.conditions[padIndex][stepIndex] = condition;
+  }
+
+  // Locks one parameter of a step, or clears it when value is null
+  setStepLock(padIndex: number, stepIndex: number, param: LockParam, value: number | null) {
+    const pattern = this.getCurrentPattern();
+    pattern.locks[padIndex][stepIndex] = updateStepLocks(pattern.locks[padIndex][stepIndex], param, value);
+  }
+
+  setStepRatchet(padIndex: number, stepIndex: number, count: number, ramp: RatchetRamp = 'none') {
+    const pattern = this.getCurrentPattern();
+    pattern.ratchets[padIndex][stepIndex] = Math.max(1, Math.round(count));
+    pattern.ratchetRamps[padIndex][stepIndex] = ramp;
+  }
+
+  // Fill mode makes 'fill' steps play and '!fill' steps rest
+  getFillActive(): boolean {
+    return this.fillActive;
+  }
+
+  setFillActive(active: boolean) {
+    this.fillActive = active;
+  }
+
+  // Song (arrangement) management
+  getSong(): SongEntry[] {
+    return this.song;
+  }
+
+  addSongEntry(patternIndex: number, repeats: number = 1) {
+    const pattern = this.patterns[patternIndex];
+    if (!pattern) return;
+
+    this.song = [
+      ...this.song,
+      { id: `song-entry-${Date.now()}-${this.song.length}`, patternId: pattern.id, repeats: Math.max(1, repeats) }
+    ];
+  }
+
+  removeSongEntry(entryIndex: number) {
+    this.song = this.song.filter((_, index) => index !== entryIndex);
+    if (this.songPosition >= this.song.length) {
+      this.songPosition = 0;
+      this.songRepeat = 0;
+    }
+  }
+
+  moveSongEntry(entryIndex: number, direction: -1 | 1) {
+    const targetIndex = entryIndex + direction;
+    if (targetIndex < 0 || targetIndex >= this.song.length) return;
+
+    const song = [...this.song];
+    [song[entryIndex], song[targetIndex]] = [song[targetIndex], song[entryIndex]];
+    this.song = song;
+  }
+
+  setSongEntryPattern(entryIndex: number, patternIndex: number) {
+    const pattern = this.patterns[patternIndex];
+    if (!pattern || !this.song[entryIndex]) return;
+
+    this.song = this.song.map((entry, index) =>
+      index === entryIndex ? { ...entry, patternId: pattern.id } : entry
+    );
+  }
+
+  setSongEntryRepeats(entryIndex: number, repeats: number) {
+    if (!this.song[entryIndex]) return;
+
+    this.song = this.song.map((entry, index) =>
+      index === entryIndex ? { ...entry, repeats: Math.max(1, Math.round(repeats)) } : entry
+    );
+  }
+
+  getSongMode(): boolean {
+    return this.songMode;
+  }
+
+  setSongMode(enabled: boolean) {
+    this.songMode = enabled;
+    this.songPosition = 0;
+    this.songRepeat = 0;
+    if (enabled) {
+      this.nextStep = 0;
+      this.selectSongEntryPattern();
+    }
+  }
+
+  getSongPosition(): number {
+    return this.songPosition;
+  }
+
+  // Pattern indices in playback order, with repeats expanded
+  getSongPatternIndices(): number[] {
+    return this.song.flatMap(entry => {
+      const patternIndex = this.patterns.findIndex(pattern => pattern.id === entry.patternId);
+      return patternIndex === -1 ? [] : Array(entry.repeats).fill(patternIndex);
+    });
+  }
+
+  private selectSongEntryPattern() {
+    const entry = this.song[this.songPosition];
+    const patternIndex = entry ? this.patterns.findIndex(pattern => pattern.id === entry.patternId) : -1;
+    if (patternIndex !== -1) {
+      this.currentPattern = patternIndex;
+    }
+  }
+
+  // Move to the next pattern in the arrangement once the current one has played through
+  private advanceSong() {
+    if (this.song.length === 0) return;
+
+    const entry = this.song[this.songPosition];
+    this.songRepeat++;
+    if (!entry || this.songRepeat >= entry.repeats) {
+      this.songRepeat = 0;
+      this.songPosition = (this.songPosition + 1) % this.song.length;
+    }
+    this.selectSongEntryPattern();
+  }
+
   // Transport controls
   play() {
     if (!this.isPlaying) {
       this.isPlaying = true;
+      if (this.songMode) {
+        this.selectSongEntryPattern();
+      }
       this.updateSequence();
       Tone.Transport.start();
     }
@@ -492,6 +987,18 @@ export class AudioEngine {
   stop() {
     this.isPlaying = false;
     this.currentStep = 0;
+    this.nextStep = 0;
+    this.songPosition = 0;
+    this.songRepeat = 0;
+    this.patternLoop = 0;
+    this.loopPatternId = null;
+    this.countingIn = false;
+    this.clearCountIn();
+    if (this.songMode) {
+      this.selectSongEntryPattern();
+    }
+    this.clearSequence();
+    Tone.Draw.cancel();
     Tone.Transport.stop();
   }
 
@@ -501,7 +1008,15 @@ export class AudioEngine {
   }
 
   // Recording
+  // Pressing record again during the count-in leaves it to finish
   startRecording() {
+    if (this.countingIn) return;
+    this.recordedSteps.clear();
+    if (!this.isPlaying && this.countInBars > 0 && Tone.Transport.state === 'stopped') {
+      this.startCountIn();
+      return;
+    }
+
     this.isRecording = true;
     if (!this.isPlaying) {
       this.play();
@@ -510,45 +1025,541 @@ export class AudioEngine {
 
   stopRecording() {
     this.isRecording = false;
+    if (this.countingIn) {
+      // Keep playing, but don't arm recording at the end of the count-in
+      this.countingIn = false;
+      this.clearCountIn();
+    }
+  }
+
+  getEraseHeld(): boolean {
+    return this.eraseHeld;
+  }
+
+  setEraseHeld(held: boolean) {
+    this.eraseHeld = held;
+  }
+
+  getEraseLatched(): boolean {
+    return this.eraseLatched;
+  }
+
+  setEraseLatched(latched: boolean) {
+    this.eraseLatched = latched;
+  }
+
+  // Pads pressed while erase is on are held to erase, not played
+  getEraseActive(): boolean {
+    return this.eraseHeld || this.eraseLatched;
+  }
+
+  getVelocityCurve(): VelocityCurve {
+    return this.velocityCurve;
+  }
+
+  setVelocityCurve(curve: VelocityCurve) {
+    this.velocityCurve = curve;
+  }
+
+  getFullLevel(): boolean {
+    return this.fullLevel;
+  }
+
+  setFullLevel(enabled: boolean) {
+    this.fullLevel = enabled;
+  }
+
+  // Velocity a pad press plays at, from how hard (or how high up) it was pressed
+  getHitVelocity(pressure: number): number {
+    return this.fullLevel ? 1 : applyVelocityCurve(pressure, this.velocityCurve);
+  }
+
+  // Pads report when they are held down (and how hard) for erase and note repeat
+  setPadHeld(padIndex: number, held: boolean, velocity: number = 0.8) {
+    if (held) {
+      this.heldPads.set(padIndex, velocity);
+    } else {
+      this.heldPads.delete(padIndex);
+    }
+  }
+
+  private eraseStep(pattern: Pattern, step: number) {
+    this.heldPads.forEach((_, padIndex) => {
+      if (pattern.steps[padIndex]) {
+        pattern.steps[padIndex][step] = false;
+      }
+    });
+  }
+
+  // Note repeat: held pads retrigger on the transport grid at the repeat rate
+  getNoteRepeatEnabled(): boolean {
+    return this.noteRepeatEnabled;
+  }
+
+  setNoteRepeatEnabled(enabled: boolean) {
+    this.noteRepeatEnabled = enabled;
+    this.scheduleNoteRepeat();
+  }
+
+  getNoteRepeatRate(): StepResolution {
+    return this.noteRepeatRate;
+  }
+
+  setNoteRepeatRate(rate: StepResolution) {
+    this.noteRepeatRate = rate;
+    this.scheduleNoteRepeat();
+  }
+
+  // While repeats are running, pad presses only hold the pad instead of playing it
+  getNoteRepeatActive(): boolean {
+    return this.noteRepeatEnabled && this.isPlaying;
+  }
+
+  private scheduleNoteRepeat() {
+    if (this.noteRepeatEventId !== null) {
+      Tone.Transport.clear(this.noteRepeatEventId);
+      this.noteRepeatEventId = null;
+    }
+    if (this.noteRepeatEnabled) {
+      const interval = `${getStepTicks(this.noteRepeatRate)}i`;
+      this.noteRepeatEventId = Tone.Transport.scheduleRepeat(time => this.repeatHeldPads(time), interval, 0);
+    }
+  }
+
+  // Pads held to erase don't repeat
+  private repeatHeldPads(time: number) {
+    if (!this.isPlaying || this.countingIn || this.getEraseActive()) return;
+
+    this.heldPads.forEach((velocity, padIndex) => {
+      this.triggerPad(padIndex, velocity, time);
+      if (this.isRecording) {
+        this.recordStep(padIndex, velocity, time);
+      }
+    });
+  }
+
+  getIsCountingIn(): boolean {
+    return this.countingIn;
+  }
+
+  // Clicks the count-in bars, then starts the pattern and recording together
+  // on the following downbeat. The events are one-offs, so a later run from
+  // the top doesn't count in (and arm recording) again.
+  private startCountIn() {
+    if (this.songMode) {
+      this.selectSongEntryPattern();
+    }
+    const { timeSignature } = this.getCurrentPattern();
+    const beatTicks = getBeatTicks(timeSignature);
+    const beats = this.countInBars * timeSignature.numerator;
+    const countInTicks = beats * beatTicks;
+
+    for (let beat = 0; beat < beats; beat++) {
+      const accent = beat % timeSignature.numerator === 0;
+      this.countInEventIds.push(
+        Tone.Transport.scheduleOnce(time => this.playClick(time, accent), `${beat * beatTicks}i`)
+      );
+    }
+    this.countInEventIds.push(
+      Tone.Transport.scheduleOnce(() => {
+        this.countingIn = false;
+        this.isRecording = true;
+        this.countInEventIds = [];
+      }, `${countInTicks}i`)
+    );
+
+    this.countingIn = true;
+    this.isPlaying = true;
+    this.scheduleStep(countInTicks);
+    Tone.Transport.start();
+  }
+
+  private clearCountIn() {
+    this.countInEventIds.forEach(id => Tone.Transport.clear(id));
+    this.countInEventIds = [];
+  }
+
+  // Metronome
+  getMetronomeEnabled(): boolean {
+    return this.metronomeEnabled;
+  }
+
+  setMetronomeEnabled(enabled: boolean) {
+    this.metronomeEnabled = enabled;
+  }
+
+  getMetronomeLevel(): number {
+    return this.metronomeLevel;
+  }
+
+  setMetronomeLevel(level: number) {
+    this.metronomeLevel = Math.min(1, Math.max(0, level));
+    this.metronomeVolume.volume.value = Tone.gainToDb(this.metronomeLevel);
+  }
+
+  getCountInBars(): CountInBars {
+    return this.countInBars;
+  }
+
+  setCountInBars(bars: CountInBars) {
+    this.countInBars = bars;
+  }
+
+  getMetronomeSampleName(): string | null {
+    return this.metronomeSampleName;
+  }
+
+  async loadMetronomeSample(file: File): Promise<void> {
+    if (Tone.getContext().state !== 'running') {
+      await Tone.start();
+    }
+    const audioBuffer = await Tone.getContext().rawContext.decodeAudioData(await file.arrayBuffer());
+
+    this.metronome?.dispose();
+    this.metronome = new Tone.Player(new Tone.ToneAudioBuffer(audioBuffer)).connect(this.metronomeVolume);
+    this.metronomeSampleName = file.name;
+  }
+
+  // Go back to the synth click
+  clearMetronomeSample() {
+    this.metronome?.dispose();
+    this.metronome = null;
+    this.metronomeSampleName = null;
+  }
+
+  private playClick(time: number, accent: boolean) {
+    if (this.metronome?.loaded) {
+      this.metronome.volume.setValueAtTime(accent ? 0 : -6, time);
+      this.metronome.start(time);
+    } else {
+      this.clickSynth.triggerAttackRelease(accent ? 'C6' : 'G5', 0.03, time);
+    }
+  }
+
+  // Clicks on every beat of the playing pattern, accenting each bar
+  private clickStep(pattern: Pattern, step: number, time: number) {
+    const stepsPerBar = getStepsPerBar(pattern.timeSignature, pattern.resolution);
+    const stepsPerBeat = getStepsPerBeat(pattern.timeSignature, pattern.resolution);
+    const barStep = step % stepsPerBar;
+    if (barStep % stepsPerBeat === 0) {
+      this.playClick(time, barStep === 0);
+    }
+  }
+
+  getRecordQuantize(): RecordQuantize {
+    return this.recordQuantize;
+  }
+
+  setRecordQuantize(quantize: RecordQuantize) {
+    this.recordQuantize = quantize;
+  }
+
+  getRecordMode(): RecordMode {
+    return this.recordMode;
   }
 
-  private recordStep(padIndex: number, velocity: number) {
+  setRecordMode(mode: RecordMode) {
+    this.recordMode = mode;
+  }
+
+  getQuantizeStrength(): number {
+    return this.quantizeStrength;
+  }
+
+  setQuantizeStrength(strength: number) {
+    this.quantizeStrength = Math.min(100, Math.max(0, strength));
+  }
+
+  // Records a hit at the audio-clock time it was played (now, for pads)
+  private recordStep(padIndex: number, velocity: number, time: number = Tone.immediate()) {
     const pattern = this.getCurrentPattern();
-    const quantizedStep = this.getQuantizedStep();
+    const { step, offset } = this.getQuantizedPosition(pattern, time);
     
-    pattern.steps[padIndex][quantizedStep] = true;
-    pattern.velocities[padIndex][quantizedStep] = velocity;
+    pattern.steps[padIndex][step] = true;
+    pattern.velocities[padIndex][step] = velocity;
+    pattern.offsets[padIndex][step] = offset;
+    this.recordedSteps.add(`${padIndex}:${step}`);
     this.updateSequence();
   }
 
-  private getQuantizedStep(): number {
-    // Convert position to step number based on quantization
-    // This is a simplified implementation
-    return Math.floor((Tone.Transport.ticks / Tone.Transport.PPQ) * 4) % 16;
+  // Moves a hit towards the quantize grid by the quantize strength, then
+  // splits it into the nearest pattern step plus a timing offset. Grids finer
+  // than the pattern's steps survive as offsets.
+  private getQuantizedPosition(pattern: Pattern, time: number): { step: number; offset: number } {
+    const stepTicks = getStepTicks(pattern.resolution);
+    const gridTicks = getStepTicks(this.recordQuantize === 'step' ? pattern.resolution : this.recordQuantize);
+    const patternTicks = pattern.length * stepTicks;
+
+    const elapsed = Tone.Transport.getTicksAtTime(time) - this.patternStartTicks;
+    const position = ((elapsed % patternTicks) + patternTicks) % patternTicks;
+    const snapped = Math.round(position / gridTicks) * gridTicks;
+    const quantized = position + (snapped - position) * (this.quantizeStrength / 100);
+    const nearest = Math.round(quantized / stepTicks);
+
+    return {
+      step: nearest % pattern.length,
+      offset: clampOffset(quantized - nearest * stepTicks, pattern.resolution)
+    };
   }
 
+  // Replace mode: the playhead clears steps it passes that weren't played in this take
+  private replaceStep(pattern: Pattern, step: number) {
+    pattern.steps.forEach((row, padIndex) => {
+      if (row[step] && !this.recordedSteps.has(`${padIndex}:${step}`)) {
+        row[step] = false;
+      }
+    });
+  }
+
+  // Each step schedules the next one on the transport, one step of the playing
+  // pattern's resolution later, so the sequence follows pattern and song changes
+  // (and mixed resolutions) without a rebuild
   private updateSequence() {
-    if (this.sequence) {
-      this.sequence.dispose();
+    if (this.isPlaying && this.sequenceEventId === null) {
+      this.scheduleStep(Tone.Transport.ticks);
     }
+  }
 
-    const pattern = this.getCurrentPattern();
-    
-    this.sequence = new Tone.Sequence((time, step) => {
+  // Steps fire up to half of the coarsest step early, so hits nudged ahead of
+  // the grid can still be scheduled on time. Each step is a one-off event, so
+  // a restart from the top doesn't find the last run's steps still queued.
+  private scheduleStep(tick: number) {
+    const lead = Math.min(tick, getStepTicks('8n') / 2);
+    this.sequenceEventId = Tone.Transport.scheduleOnce(time => {
+      this.sequenceEventId = null;
+      const pattern = this.playNextStep(time + this.ticksToSeconds(lead), tick);
+      this.scheduleStep(tick + getStepTicks(pattern.resolution));
+    }, `${tick - lead}i`);
+  }
+
+  private clearSequence() {
+    if (this.sequenceEventId !== null) {
+      Tone.Transport.clear(this.sequenceEventId);
+      this.sequenceEventId = null;
+    }
+  }
+
+  // Plays the next step and returns the pattern it belongs to
+  private playNextStep(time: number, tick: number): Pattern {
+    let pattern = this.getCurrentPattern();
+    if (this.nextStep >= pattern.length) {
+      this.nextStep = 0;
+      if (this.songMode) {
+        this.advanceSong();
+        pattern = this.getCurrentPattern();
+      }
+    }
+
+    const step = this.nextStep;
+    this.nextStep++;
+    if (step === 0) {
+      this.patternStartTicks = tick;
+      this.patternLoop = pattern.id === this.loopPatternId ? this.patternLoop + 1 : 0;
+      this.loopPatternId = pattern.id;
+    }
+
+    if (this.isRecording && this.recordMode === 'replace') {
+      this.replaceStep(pattern, step);
+    }
+    // The step fires ahead of its time, so the playhead (and erase, which
+    // follows it) waits for the step to be heard
+    Tone.Draw.schedule(() => {
+      if (!this.isPlaying) return;
       this.currentStep = step;
-      
-      // Trigger all active pads for this step
-      for (let padIndex = 0; padIndex < 16; padIndex++) {
-        if (pattern.steps[padIndex][step]) {
-          const velocity = pattern.velocities[padIndex][step];
-          this.triggerPad(padIndex, velocity, time);
+      if (this.getEraseActive()) {
+        this.eraseStep(pattern, step);
+      }
+    }, time);
+    if (this.metronomeEnabled) {
+      this.clickStep(pattern, step, time);
+    }
+
+    // Trigger all active pads for this step
+    const context: StepContext = { loop: this.patternLoop, fill: this.fillActive, random: Math.random };
+    this.forEachStepHit(pattern, step, time, context, (padIndex, velocity, hitTime, locks) => {
+      this.triggerPad(padIndex, velocity, Math.max(hitTime, Tone.now()), locks);
+    });
+    return pattern;
+  }
+
+  // Every hit a pattern step produces, shared by live playback and offline rendering
+  private forEachStepHit(
+    pattern: Pattern,
+    step: number,
+    time: number,
+    context: StepContext,
+    trigger: StepHitCallback
+  ) {
+    const stepTime = time + this.getSwingOffset(pattern, step);
+    const stepDuration = this.getStepDuration(pattern);
+    for (let padIndex = 0; padIndex < pattern.steps.length; padIndex++) {
+      if (pattern.steps[padIndex][step] && this.stepPasses(pattern, padIndex, step, context)) {
+        const hitTime = stepTime + this.ticksToSeconds(pattern.offsets[padIndex][step]);
+        const velocity = pattern.velocities[padIndex][step];
+        const ratchets = pattern.ratchets[padIndex][step];
+        const ramp = pattern.ratchetRamps[padIndex][step];
+        const locks = pattern.locks[padIndex][step];
+
+        for (let hit = 0; hit < ratchets; hit++) {
+          trigger(
+            padIndex,
+            getRatchetVelocity(velocity, hit, ratchets, ramp),
+            hitTime + (hit * stepDuration) / ratchets,
+            locks
+          );
         }
       }
-    }, Array.from({ length: pattern.length }, (_, i) => i), this.quantization);
+    }
+  }
+
+  private stepPasses(pattern: Pattern, padIndex: number, step: number, context: StepContext): boolean {
+    if (!evaluateCondition(pattern.conditions[padIndex][step], context.loop, context.fill)) return false;
+
+    // Roll for every active step, even certain ones, so a seeded sequence stays aligned
+    const roll = context.random() * 100;
+    return roll < pattern.probabilities[padIndex][step];
+  }
 
-    if (this.isPlaying) {
-      this.sequence.start();
+  // Delay for the off-beat step of each pair, so that at 66% the pair splits 2:1
+  private getSwingOffset(pattern: Pattern, step: number): number {
+    if (step % 2 === 0) return 0;
+    return (pattern.swing / 50 - 1) * this.getStepDuration(pattern);
+  }
+
+  private getStepDuration(pattern: Pattern): number {
+    return this.ticksToSeconds(getStepTicks(pattern.resolution));
+  }
+
+  private ticksToSeconds(ticks: number): number {
+    return (60 / this.bpm) * (ticks / Tone.Transport.PPQ);
+  }
+
+  // Offline rendering
+  async bounceToWav(options: BounceOptions = {}): Promise<Blob> {
+    const patternIndices = options.patternIndices ?? [this.currentPattern];
+    const rendered = await this.renderPatterns(patternIndices, this.createSeed());
+    return encodeWavBlob(rendered, options.bitDepth ?? 16);
+  }
+
+  // Bounce every pad that plays in the rendered patterns to its own WAV, zipped together
+  async bounceStems(options: BounceOptions = {}): Promise<Blob> {
+    const patternIndices = options.patternIndices ?? [this.currentPattern];
+    const bitDepth = options.bitDepth ?? 16;
+    const stems: ZipEntry[] = [];
+    // Every stem rolls the same probabilities so they add up to one take
+    const seed = this.createSeed();
+
+    for (let padIndex = 0; padIndex < this.samples.length; padIndex++) {
+      const sample = this.samples[padIndex];
+      const hasHits = patternIndices.some(index =>
+        this.patterns[index]?.steps[padIndex]?.some(Boolean)
+      );
+      if (!hasLayerAudio(sample) || !hasHits) continue;
+
+      const rendered = await this.renderPatterns(patternIndices, seed, [padIndex]);
+      const stemName = sample.name.replace(/\.[^.]+$/, '').replace(/[^a-z0-9]/gi, '_');
+      stems.push({
+        name: `${String(padIndex + 1).padStart(2, '0')}_${stemName}.wav`,
+        data: encodeWav(rendered, bitDepth)
+      });
     }
+
+    if (stems.length === 0) {
+      throw new Error('No pads with samples play in the selected patterns');
+    }
+    return createZip(stems);
+  }
+
+  private createSeed(): number {
+    return Math.floor(Math.random() * 0xffffffff);
+  }
+
+  // Render patterns back to back through each pad's volume/pan chain,
+  // optionally limited to some pads (for stems). Probabilities are rolled
+  // from the seed; fill conditions render as if fill is off.
+  private async renderPatterns(patternIndices: number[], seed: number, padIndices?: number[]): Promise<AudioBuffer> {
+    const patterns = patternIndices
+      .map(index => this.patterns[index])
+      .filter((pattern): pattern is Pattern => !!pattern);
+    if (patterns.length === 0) {
+      throw new Error('No patterns to render');
+    }
+
+    const hits: RenderHit[] = [];
+    const random = createRandom(seed);
+    let patternStart = 0;
+    let loop = 0;
+    patterns.forEach((pattern, index) => {
+      // Repeats of the same pattern count up loops, like live playback
+      loop = index > 0 && patterns[index - 1].id === pattern.id ? loop + 1 : 0;
+      const context: StepContext = { loop, fill: false, random };
+      const stepDuration = this.getStepDuration(pattern);
+      for (let step = 0; step < pattern.length; step++) {
+        this.forEachStepHit(pattern, step, patternStart + step * stepDuration, context, (padIndex, velocity, time, locks) => {
+          // Hits nudged ahead of the very first step start at zero
+          hits.push({ padIndex, velocity, time: Math.max(0, time), locks });
+        });
+      }
+      patternStart += pattern.length * stepDuration;
+    });
+
+    // Leave room for the last hits to ring out, at their own pitch and through
+    // their release. Every pad counts, so stems of one take line up.
+    const duration = hits.reduce((end, hit) => {
+      const played = this.getRenderedHit(hit);
+      return played ? Math.max(end, hit.time + played.length) : end;
+    }, patternStart);
+
+    const rendered = await Tone.Offline(() => {
+      // Nodes created here belong to the offline context
+      const chains = this.samples.map((sample, padIndex) => {
+        if (!hasLayerAudio(sample) || (padIndices && !padIndices.includes(padIndex))) return null;
+        const panner = new Tone.Panner(sample.pan).toDestination();
+        const filter = new Tone.Filter(DEFAULT_CUTOFF, sample.filterType).connect(panner);
+        const voices = new VoicePool(filter, getVoiceCount(sample));
+        return { voices, filter, panner };
+      });
+      const pools = chains.map(chain => chain?.voices ?? null);
+
+      hits.forEach(hit => {
+        const played = this.getRenderedHit(hit);
+        if (!played) return;
+        const { sample, buffer, slice, rate } = played;
+
+        // Pads left out of a stem still choke the ones rendered into it
+        this.chokePads(hit.padIndex, sample.chokeGroup, pools, hit.time);
+        const chain = chains[hit.padIndex];
+        if (!chain) return;
+
+        const { voices, filter, panner } = chain;
+        const voice = voices.next();
+        this.applyHitParams(filter, panner, sample, hit.time, hit.velocity);
+        this.applyEnvelope(voice.envelope, sample, hit.time, slice.duration / rate);
+        voice.volume.setValueAtTime(this.getHitVolume(sample, hit.velocity), hit.time);
+        voice.start(buffer, hit.time, slice.startTime, slice.duration, rate);
+      });
+    }, duration);
+
+    const audioBuffer = rendered.get();
+    if (!audioBuffer) {
+      throw new Error('Offline render produced no audio');
+    }
+    return audioBuffer;
+  }
+
+  // What a rendered hit plays: the pad with the step's locks, the slice of the
+  // layer its velocity picks and the rate it plays at, and how long it rings
+  // (the slice at that rate, or the envelope if it releases later)
+  private getRenderedHit({ padIndex, velocity, locks }: RenderHit) {
+    const sample = this.getLockedSample(this.samples[padIndex], locks);
+    const layer = getLayerForVelocity(sample, velocity);
+    const slice = layer && this.getSliceTiming(this.getLockedLayer(layer, locks));
+    if (!layer?.buffer || !slice) return null;
+
+    const rate = this.getHitRate(sample, locks);
+    const playback = slice.duration / rate;
+    const length = Math.max(playback, this.getReleaseStart(sample, playback) + Math.max(MIN_ENVELOPE_TIME, sample.release));
+    return { sample, buffer: layer.buffer, slice, rate, length };
   }
 
   // Getters
@@ -605,23 +1616,87 @@ export class AudioEngine {
       samples: this.samples,
       patterns: this.patterns,
       currentPattern: this.currentPattern,
-      bpm: this.bpm
+      bpm: this.bpm,
+      song: this.song
     };
   }
 
   loadProject(project: Project) {
-    this.samples = project.samples;
-    this.patterns = project.patterns;
+    // Pad settings added since a project was saved take their defaults
+    this.samples = project.samples.map(sample => ({ ...DEFAULT_PAD_SETTINGS, ...sample }));
+    this.patterns = project.patterns.map(normalizePattern);
     this.currentPattern = project.currentPattern;
+    this.song = project.song ?? [];
+    this.songPosition = 0;
+    this.songRepeat = 0;
     this.setBPM(project.bpm);
-    
-    // Update players with loaded samples
+
+    // Rebuild voices, filters and panners from the loaded samples
     this.samples.forEach((sample, index) => {
-      if (sample.buffer) {
-        this.players[index].buffer = sample.buffer;
-      }
+      this.syncVoices(index);
+      this.panners[index].pan.value = sample.pan;
     });
-    
+
     this.updateSequence();
   }
+
+  // Project serialization (sample audio embedded as WAV)
+  exportSerializedProject(name?: string): SerializedProject {
+    const project = this.exportProject();
+    return serializeProject(name ? { ...project, name } : project);
+  }
+
+  async importSerializedProject(data: SerializedProject | Project): Promise<void> {
+    // Projects saved before the audio was embedded only carry sample settings
+    const serialized = isSerializedProject(data);
+
+    const samples = await Promise.all(
+      this.samples.map(async (_, index): Promise<Sample> => {
+        const stored = data.samples[index];
+        // Pads beyond those an older project saved start out empty
+        if (!stored) {
+          return createSample(index);
+        }
+
+        // Older projects kept a single sample's audio and trim on the sample itself
+        const legacy = stored as SerializedSample & { audio?: string | null; buffer?: unknown; startTime?: number; endTime?: number };
+        const {
+          audio: _legacyAudio,
+          buffer: _legacyBuffer,
+          startTime: _legacyStart,
+          endTime: _legacyEnd,
+          layers: _layers,
+          ...settings
+        } = legacy;
+
+        const layers = await Promise.all(
+          getSerializedLayers(legacy).map(async ({ audio, ...layer }): Promise<SampleLayer> => {
+            let buffer: Tone.ToneAudioBuffer | null = null;
+            if (serialized && audio) {
+              try {
+                const audioBuffer = await Tone.getContext().decodeAudioData(base64ToArrayBuffer(audio));
+                buffer = new Tone.ToneAudioBuffer(audioBuffer);
+              } catch (error) {
+                console.error(`❌ Error decoding embedded audio for pad ${index}:`, error);
+              }
+            }
+            return { ...layer, buffer };
+          })
+        );
+
+        // Settings older projects lack take their defaults, not the current pad's
+        return { ...createSample(index), ...settings, layers };
+      })
+    );
+
+    this.loadProject({
+      id: data.id,
+      name: data.name,
+      samples,
+      patterns: data.patterns,
+      currentPattern: data.currentPattern,
+      bpm: data.bpm,
+      song: data.song
+    });
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,106 @@
+import * as Tone from 'tone';
+
+// One voice: hits played through a level control and shaped by the voice's
+// own amplitude envelope. Each hit gets its own buffer source, playing at the
+// hit's rate from the hit's time, so a hit queued ahead doesn't re-pitch the
+// one still ringing.
+export class Voice {
+  readonly envelope: Tone.AmplitudeEnvelope;
+  private channel: Tone.Volume;
+  private sources = new Set<Tone.ToneBufferSource>();
+
+  constructor(output: Tone.InputNode, volume: number = 0) {
+    this.envelope = new Tone.AmplitudeEnvelope().connect(output);
+    this.channel = new Tone.Volume(volume).connect(this.envelope);
+  }
+
+  // Level of the voice's hits, in dB
+  get volume(): Tone.Param<'decibels'> {
+    return this.channel.volume;
+  }
+
+  get state(): Tone.PlaybackState {
+    return this.sources.size > 0 ? 'started' : 'stopped';
+  }
+
+  // Plays duration seconds of the buffer from offset, at a playback rate.
+  // Whatever the voice is still playing then is cut off.
+  start(buffer: Tone.ToneAudioBuffer, time: Tone.Unit.Time, offset: number, duration: number, rate: number = 1) {
+    const startTime = this.channel.toSeconds(time);
+    this.stop(startTime);
+
+    const source = new Tone.ToneBufferSource({
+      url: buffer,
+      playbackRate: rate,
+      onended: () => this.sources.delete(source)
+    }).connect(this.channel);
+    source.start(startTime, offset, duration / rate);
+    this.sources.add(source);
+  }
+
+  // Only cuts hits still playing at that time, so it never moves a hit's end later
+  stop(time?: Tone.Unit.Time) {
+    const stopTime = this.channel.toSeconds(time ?? Tone.now());
+    this.sources.forEach(source => {
+      if (source.getStateAtTime(stopTime) === 'started') {
+        source.stop(stopTime);
+      }
+    });
+  }
+
+  dispose() {
+    this.sources.forEach(source => source.dispose());
+    this.sources.clear();
+    this.channel.dispose();
+    this.envelope.dispose();
+  }
+}
+
+// The voices behind one pad, all feeding the pad's channel. A new hit on a
+// voice cuts off whatever it was playing, so a mono pad (one voice) chokes
+// itself while a poly pad rotates through its voices, stealing the oldest,
+// and overlapping hits ring out. Voices hold no sample of their own: each
+// hit plays the buffer of the velocity layer it was picked for.
+export class VoicePool {
+  private voices: Voice[] = [];
+  private nextVoice = 0;
+
+  constructor(private output: Tone.InputNode, size: number = 1) {
+    this.resize(size);
+  }
+
+  getVoices(): Voice[] {
+    return this.voices;
+  }
+
+  // The voice the next hit should play on
+  next(): Voice {
+    const voice = this.voices[this.nextVoice];
+    this.nextVoice = (this.nextVoice + 1) % this.voices.length;
+    return voice;
+  }
+
+  resize(size: number) {
+    if (size !== this.voices.length) {
+      this.rebuild(size);
+    }
+  }
+
+  stop(time?: Tone.Unit.Time) {
+    this.voices.forEach(voice => voice.stop(time));
+  }
+
+  dispose() {
+    this.voices.forEach(voice => voice.dispose());
+    this.voices = [];
+  }
+
+  private rebuild(size: number) {
+    const volume = this.voices[0]?.volume.value ?? 0;
+    this.dispose();
+    for (let i = 0; i < Math.max(1, size); i++) {
+      this.voices.push(new Voice(this.output, volume));
+    }
+    this.nextVoice = 0;
+  }
+}
@@ -0,0 +1,522 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { File as NodeFile } from 'node:buffer'
+import type * as Tone from 'tone'
+import { AudioEngine } from '../AudioEngine'
+import { getStepTicks } from '../pattern'
+import { AmplitudeEnvelope, Filter, Offline, ToneAudioBuffer, ToneBufferSource, Transport } from '../../test/mocks/tone'
+
+vi.mock('tone', () => import('../../test/mocks/tone'))
+
+const STEP_TICKS = getStepTicks('16n')
+const STEP_LEAD = getStepTicks('8n') / 2
+
+// A loaded buffer of a length in seconds, as the engine sees it
+const createBuffer = (duration = 1) => new ToneAudioBuffer(null, duration) as unknown as Tone.ToneAudioBuffer
+
+describe('AudioEngine', () => {
+  let engine: AudioEngine
+  let triggerPad: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    Transport.reset()
+    engine = new AudioEngine()
+    triggerPad = vi.spyOn(engine, 'triggerPad').mockImplementation(() => {})
+  })
+
+  // Runs the transport through whole 16-step bars from where it is, stopping
+  // short of the lead the next bar's first step is scheduled with
+  const playBars = (bars: number) => Transport.advance(Transport.ticks + bars * 16 * STEP_TICKS - STEP_LEAD - 1)
+
+  describe('sequencer playback', () => {
+    it('plays each step once per pass', () => {
+      engine.toggleStep(0, 0)
+      engine.toggleStep(0, 8)
+
+      engine.play()
+      playBars(2)
+
+      expect(triggerPad).toHaveBeenCalledTimes(4)
+    })
+
+    it('does not replay the previous run after stop and play', () => {
+      engine.toggleStep(0, 0)
+
+      engine.play()
+      playBars(1)
+      engine.stop()
+      engine.play()
+      playBars(1)
+      engine.stop()
+      engine.play()
+      playBars(1)
+
+      expect(triggerPad).toHaveBeenCalledTimes(3)
+      // The last step is scheduled but not heard yet
+      expect(engine.getCurrentStep()).toBe(14)
+    })
+
+    it('moves the playhead when a step is heard, not when it is scheduled', () => {
+      engine.play()
+
+      Transport.advance(4 * STEP_TICKS - 1)
+      expect(engine.getCurrentStep()).toBe(3)
+
+      Transport.advance(4 * STEP_TICKS)
+      expect(engine.getCurrentStep()).toBe(4)
+    })
+
+    it('counts passes through the pattern for trig conditions', () => {
+      engine.toggleStep(0, 0)
+      engine.setStepCondition(0, 0, '2:2')
+      engine.toggleStep(1, 0)
+      engine.setStepCondition(1, 0, 'first')
+
+      engine.play()
+      playBars(4)
+
+      const plays = (padIndex: number) => triggerPad.mock.calls.filter(([pad]) => pad === padIndex).length
+      expect(plays(0)).toBe(2)
+      expect(plays(1)).toBe(1)
+    })
+  })
+
+  describe('patterns', () => {
+    it('keeps the bar count when the time signature changes', () => {
+      engine.setPatternBars(2)
+      engine.setPatternTimeSignature(3, 4)
+
+      expect(engine.getCurrentPattern().length).toBe(24)
+    })
+
+    it('refuses a resolution change that would drop hits past the longest pattern', () => {
+      engine.setPatternLength(64)
+      engine.toggleStep(0, 60)
+
+      expect(engine.setPatternResolution('32n')).toBe(false)
+      expect(engine.getCurrentPattern().resolution).toBe('16n')
+      expect(engine.getCurrentPattern().steps[0][60]).toBe(true)
+
+      engine.setPatternLength(32)
+      expect(engine.setPatternResolution('32n')).toBe(true)
+      expect(engine.getCurrentPattern().length).toBe(64)
+    })
+
+    it('refuses time signatures and resolutions that would split a step across bars', () => {
+      engine.setPatternTimeSignature(7, 8)
+
+      expect(engine.setPatternResolution('8t')).toBe(false)
+      expect(engine.getCurrentPattern().resolution).toBe('16n')
+
+      engine.setPatternTimeSignature(4, 4)
+      engine.setPatternResolution('8t')
+      expect(engine.setPatternTimeSignature(9, 8)).toBe(false)
+      expect(engine.getCurrentPattern().timeSignature).toEqual({ numerator: 4, denominator: 4 })
+    })
+  })
+
+  describe('swing', () => {
+    it('delays the off-beat step of each pair by the swing amount', () => {
+      for (let step = 0; step < 4; step++) {
+        engine.toggleStep(0, step)
+      }
+      engine.setPatternSwing(66)
+
+      engine.play()
+      playBars(1)
+
+      // At 120 BPM a 16th is 0.125s; 66% swing pushes the off-beats 0.04s late
+      const times = triggerPad.mock.calls.map(([, , time]) => time)
+      expect(times).toEqual([0, 0.165, 0.25, 0.415].map(time => expect.closeTo(time)))
+    })
+  })
+
+  describe('song mode', () => {
+    it('plays each entry its number of repeats, then moves on and wraps around', () => {
+      engine.toggleStep(0, 0)
+      engine.addPattern()
+      engine.setCurrentPattern(1)
+      engine.toggleStep(1, 0)
+      engine.addSongEntry(0, 2)
+      engine.addSongEntry(1)
+      engine.setSongMode(true)
+
+      engine.play()
+      playBars(3)
+
+      expect(triggerPad.mock.calls.map(([padIndex]) => padIndex)).toEqual([0, 0, 1])
+      expect(engine.getSongPosition()).toBe(1)
+
+      playBars(1)
+
+      expect(triggerPad.mock.calls.map(([padIndex]) => padIndex)).toEqual([0, 0, 1, 0])
+      expect(engine.getSongPosition()).toBe(0)
+    })
+  })
+
+  describe('count-in', () => {
+    it('arms recording after the count-in bar', () => {
+      engine.startRecording()
+      expect(engine.getIsCountingIn()).toBe(true)
+      expect(engine.getIsRecording()).toBe(false)
+
+      playBars(1)
+      Transport.advance(16 * STEP_TICKS)
+
+      expect(engine.getIsCountingIn()).toBe(false)
+      expect(engine.getIsRecording()).toBe(true)
+    })
+
+    it('finishes the count-in when record is pressed again', () => {
+      engine.startRecording()
+      Transport.advance(4 * STEP_TICKS)
+      engine.startRecording()
+
+      expect(engine.getIsCountingIn()).toBe(true)
+      expect(engine.getIsRecording()).toBe(false)
+
+      Transport.advance(16 * STEP_TICKS)
+      expect(engine.getIsCountingIn()).toBe(false)
+      expect(engine.getIsRecording()).toBe(true)
+    })
+
+    it('does not count in again on a later plain play', () => {
+      engine.toggleStep(0, 0)
+      engine.startRecording()
+      Transport.advance(16 * STEP_TICKS)
+      engine.stopRecording()
+      engine.stop()
+
+      // Through the first downbeat of the second bar, where the count-in armed recording
+      engine.play()
+      Transport.advance(16 * STEP_TICKS)
+
+      expect(engine.getIsRecording()).toBe(false)
+      // Once in the count-in take, then on both downbeats
+      expect(triggerPad).toHaveBeenCalledTimes(3)
+    })
+  })
+
+  describe('note repeat', () => {
+    beforeEach(() => {
+      engine.setNoteRepeatEnabled(true)
+      engine.setNoteRepeatRate('16n')
+      engine.setPadHeld(0, true, 0.7)
+    })
+
+    it('retriggers held pads at the repeat rate', () => {
+      engine.play()
+      Transport.advance(4 * STEP_TICKS - 1)
+
+      expect(triggerPad.mock.calls).toEqual([0, 0.125, 0.25, 0.375].map(time => [0, 0.7, time]))
+    })
+
+    it('follows a change of rate from the next repeat', () => {
+      engine.play()
+      Transport.advance(STEP_TICKS - 1)
+      engine.setNoteRepeatRate('8n')
+      Transport.advance(4 * STEP_TICKS - 1)
+
+      expect(triggerPad.mock.calls.map(([, , time]) => time)).toEqual([0, 0.25])
+    })
+
+    it('records the repeats into the pattern', () => {
+      engine.setCountInBars(0)
+      engine.play()
+      engine.startRecording()
+      Transport.advance(4 * STEP_TICKS - 1)
+
+      const pattern = engine.getCurrentPattern()
+      expect(pattern.steps[0].slice(0, 5)).toEqual([true, true, true, true, false])
+      expect(pattern.velocities[0][3]).toBe(0.7)
+    })
+  })
+
+  describe('erase', () => {
+    it('removes the steps of held pads while latched on', () => {
+      engine.toggleStep(0, 4)
+      engine.toggleStep(1, 4)
+      engine.setEraseLatched(true)
+      engine.setPadHeld(0, true)
+
+      engine.play()
+      playBars(1)
+
+      const { steps } = engine.getCurrentPattern()
+      expect(steps[0][4]).toBe(false)
+      expect(steps[1][4]).toBe(true)
+    })
+
+    it('waits for the playhead to reach a step before erasing it', () => {
+      engine.toggleStep(0, 4)
+      engine.setEraseLatched(true)
+      engine.setPadHeld(0, true)
+
+      engine.play()
+      Transport.advance(4 * STEP_TICKS - 1)
+      expect(engine.getCurrentPattern().steps[0][4]).toBe(true)
+
+      Transport.advance(4 * STEP_TICKS)
+      expect(engine.getCurrentPattern().steps[0][4]).toBe(false)
+    })
+  })
+
+  describe('hits', () => {
+    beforeEach(() => {
+      triggerPad.mockRestore()
+      engine.setLayerProperty(0, 0, 'buffer', createBuffer())
+    })
+
+    it('opens the pad envelope at the hit and releases it to end with the slice', () => {
+      engine.setSampleProperty(0, 'attack', 0.1)
+      engine.setSampleProperty(0, 'decay', 0.2)
+      engine.setSampleProperty(0, 'sustain', 0.5)
+      engine.setSampleProperty(0, 'release', 0.3)
+
+      engine.triggerPad(0, 0.8, 1)
+
+      const envelope = AmplitudeEnvelope.instances.find(({ triggerAttack }) => triggerAttack.mock.calls.length > 0)!
+      expect(envelope.set).toHaveBeenLastCalledWith({ attack: 0.1, decay: 0.2, sustain: 0.5, release: 0.3 })
+      expect(envelope.triggerAttack).toHaveBeenCalledWith(1)
+      expect(envelope.triggerRelease).toHaveBeenCalledWith(1.7)
+    })
+
+    it('holds the envelope open through its attack, even past the slice', () => {
+      engine.setSampleProperty(0, 'attack', 1.5)
+      engine.setSampleProperty(0, 'tuneCoarse', 12)
+
+      engine.triggerPad(0, 0.8, 1)
+
+      // An octave up the slice lasts half a second, shorter than the attack
+      const envelope = AmplitudeEnvelope.instances.find(({ triggerAttack }) => triggerAttack.mock.calls.length > 0)!
+      expect(envelope.triggerRelease).toHaveBeenCalledWith(2.5)
+    })
+
+    it('sweeps the pad filter up by the envelope amount and back over the decay', () => {
+      engine.setSampleProperty(0, 'filterType', 'highpass')
+      engine.setSampleProperty(0, 'filterCutoff', 2000)
+      engine.setSampleProperty(0, 'filterResonance', 4)
+      engine.setSampleProperty(0, 'filterEnvAmount', 0.5)
+      engine.setSampleProperty(0, 'attack', 0.1)
+      engine.setSampleProperty(0, 'decay', 0.2)
+
+      engine.triggerPad(0, 1, 1)
+
+      // Half the envelope amount opens the cutoff two octaves
+      const filter = Filter.instances.find(({ frequency }) => frequency.setValueAtTime.mock.calls.length > 0)!
+      expect(filter.type).toBe('highpass')
+      expect(filter.Q.setValueAtTime).toHaveBeenCalledWith(4, 1)
+      expect(filter.frequency.setValueAtTime).toHaveBeenCalledWith(2000, 1)
+      expect(filter.frequency.exponentialRampToValueAtTime.mock.calls).toEqual([
+        [8000, 1.1],
+        [2000, expect.closeTo(1.3)]
+      ])
+    })
+
+    it('closes the pad filter for softer hits by the velocity amount', () => {
+      engine.setSampleProperty(0, 'filterCutoff', 2000)
+      engine.setSampleProperty(0, 'filterVelocity', 1)
+
+      engine.triggerPad(0, 0.5, 1)
+
+      const filter = Filter.instances.find(({ frequency }) => frequency.setValueAtTime.mock.calls.length > 0)!
+      expect(filter.frequency.setValueAtTime).toHaveBeenCalledWith(500, 1)
+      expect(filter.frequency.exponentialRampToValueAtTime).not.toHaveBeenCalled()
+    })
+
+    it('plays a pitch lock on its own hit without re-pitching the one before', () => {
+      engine.triggerPad(0, 0.8, 0.5)
+      engine.triggerPad(0, 0.8, 0.6, { pitch: 12 })
+
+      const [first, second] = ToneBufferSource.instances
+      expect(first.playbackRate.value).toBe(1)
+      expect(first.playbackRate.setValueAtTime).not.toHaveBeenCalled()
+      expect(first.stop).toHaveBeenCalledWith(0.6)
+      expect(second.playbackRate.value).toBe(2)
+      expect(second.start).toHaveBeenCalledWith(0.6, 0, 0.5)
+    })
+  })
+
+  describe('voices', () => {
+    beforeEach(() => {
+      triggerPad.mockRestore()
+      engine.setLayerProperty(0, 0, 'buffer', createBuffer())
+    })
+
+    it('cuts off the previous hit on a mono pad', () => {
+      engine.triggerPad(0, 0.8, 0.5)
+      engine.triggerPad(0, 0.8, 0.6)
+
+      const [first, second] = ToneBufferSource.instances
+      expect(first.stop).toHaveBeenCalledWith(0.6)
+      expect(second.stop).not.toHaveBeenCalled()
+    })
+
+    it('lets hits overlap on a poly pad, stealing the oldest voice', () => {
+      engine.setSampleProperty(0, 'voiceMode', 'poly')
+      engine.setSampleProperty(0, 'voiceCount', 2)
+
+      engine.triggerPad(0, 0.8, 0.5)
+      engine.triggerPad(0, 0.8, 0.6)
+      const [first, second] = ToneBufferSource.instances
+      expect(first.stop).not.toHaveBeenCalled()
+
+      engine.triggerPad(0, 0.8, 0.7)
+      expect(first.stop).toHaveBeenCalledWith(0.7)
+      expect(second.stop).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('velocity layers', () => {
+    // jsdom's File can't be read back, so samples are loaded from Node's
+    const createFile = (name: string) => new NodeFile([new Uint8Array(4)], name) as unknown as File
+
+    beforeEach(() => {
+      // Loading plays the pad a moment later; that test hit isn't wanted here
+      vi.useFakeTimers()
+      triggerPad.mockRestore()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('splits the velocity range between loaded layers and plays the one a hit picks', async () => {
+      await engine.loadSample(0, createFile('soft.wav'))
+      await engine.loadSample(0, createFile('hard.wav'), 1)
+
+      const { name, layers } = engine.getSample(0)
+      expect(name).toBe('soft.wav')
+      expect(layers).toMatchObject([
+        { name: 'soft.wav', velocityMin: 0, velocityMax: 0.5 },
+        { name: 'hard.wav', velocityMin: 0.5, velocityMax: 1 }
+      ])
+
+      engine.triggerPad(0, 0.3, 1)
+      engine.triggerPad(0, 0.9, 2)
+      // On the shared boundary the softer layer plays
+      engine.triggerPad(0, 0.5, 3)
+
+      const [soft, hard, boundary] = ToneBufferSource.instances
+      expect(soft.buffer).toBe(layers[0].buffer)
+      expect(hard.buffer).toBe(layers[1].buffer)
+      expect(boundary.buffer).toBe(layers[0].buffer)
+    })
+
+    it('leaves hits outside every layer silent', async () => {
+      await engine.loadSample(0, createFile('soft.wav'))
+      engine.setLayerProperty(0, 0, 'velocityMax', 0.5)
+
+      engine.triggerPad(0, 0.9, 1)
+
+      expect(ToneBufferSource.instances).toHaveLength(0)
+    })
+  })
+
+  describe('parameter locks', () => {
+    beforeEach(() => {
+      triggerPad.mockRestore()
+      engine.setLayerProperty(0, 0, 'buffer', createBuffer())
+    })
+
+    it('holds locks to their range so hits and bounces still play', async () => {
+      engine.toggleStep(0, 0)
+      engine.setStepLock(0, 0, 'pan', 5)
+      engine.setStepLock(0, 0, 'volume', -0.5)
+
+      expect(engine.getCurrentPattern().locks[0][0]).toEqual({ pan: 1, volume: 0 })
+
+      engine.play()
+      playBars(1)
+
+      expect(ToneBufferSource.instances).toHaveLength(1)
+      await expect(engine.bounceToWav()).resolves.toBeInstanceOf(Blob)
+      await expect(engine.bounceStems()).resolves.toBeInstanceOf(Blob)
+    })
+  })
+
+  describe('offline rendering', () => {
+    it('chokes a stem with hits of pads left out of it', async () => {
+      const buffer = createBuffer()
+      // Pad 1 is a closed hat choking pad 2, an open hat
+      for (const padIndex of [0, 1]) {
+        engine.setLayerProperty(padIndex, 0, 'buffer', buffer)
+        engine.setSampleProperty(padIndex, 'chokeGroup', 1)
+      }
+      engine.toggleStep(1, 0)
+      engine.toggleStep(0, 2)
+
+      await engine.bounceStems()
+
+      // The open hat's stem is rendered second
+      const openHat = ToneBufferSource.instances[1]
+      expect(ToneBufferSource.instances).toHaveLength(2)
+      expect(openHat.stop).toHaveBeenCalledWith(0.25)
+    })
+
+    it('renders until the last hit has rung out at its own pitch and release', async () => {
+      engine.setLayerProperty(0, 0, 'buffer', createBuffer())
+      engine.setSampleProperty(0, 'tuneCoarse', -12)
+      engine.toggleStep(0, 15)
+      engine.setStepLock(0, 15, 'pitch', -12)
+      engine.setLayerProperty(1, 0, 'buffer', createBuffer(0.5))
+      engine.setSampleProperty(1, 'attack', 2)
+      engine.setSampleProperty(1, 'release', 1)
+      engine.toggleStep(1, 0)
+
+      await engine.bounceToWav()
+
+      // Two octaves down, the last step's second of audio plays for four;
+      // the other pad's envelope opens for two seconds and releases for one
+      expect(Offline.mock.lastCall![1]).toBeCloseTo(15 * 0.125 + 4)
+
+      engine.toggleStep(0, 15)
+      await engine.bounceToWav()
+      expect(Offline.mock.lastCall![1]).toBeCloseTo(3)
+    })
+  })
+
+  describe('live recording', () => {
+    beforeEach(() => {
+      triggerPad.mockRestore()
+      engine.setLayerProperty(0, 0, 'buffer', createBuffer())
+      engine.setCountInBars(0)
+      engine.play()
+      engine.startRecording()
+    })
+
+    // Hits pad 1 at a tick of the first bar and returns where it was recorded
+    const recordAt = (tick: number) => {
+      Transport.advance(tick)
+      engine.triggerPad(0, 0.9)
+      const pattern = engine.getCurrentPattern()
+      const step = pattern.steps[0].findIndex(Boolean)
+      return { step, offset: pattern.offsets[0][step] }
+    }
+
+    it('snaps hits to the nearest step at full strength', () => {
+      expect(recordAt(5 * STEP_TICKS + 10)).toEqual({ step: 5, offset: 0 })
+    })
+
+    it('moves hits part of the way to the grid at partial strength', () => {
+      engine.setQuantizeStrength(50)
+
+      expect(recordAt(5 * STEP_TICKS + 10)).toEqual({ step: 5, offset: 5 })
+    })
+
+    it('keeps the timing of unquantized hits as an offset from the nearest step', () => {
+      engine.setQuantizeStrength(0)
+
+      expect(recordAt(6 * STEP_TICKS - 18)).toEqual({ step: 6, offset: -18 })
+    })
+
+    it('keeps a grid finer than the steps as offsets', () => {
+      engine.setRecordQuantize('32n')
+
+      expect(recordAt(5 * STEP_TICKS + 20)).toEqual({ step: 6, offset: -24 })
+    })
+
+    it('wraps hits just before the loop point onto the first step', () => {
+      expect(recordAt(16 * STEP_TICKS - 5)).toEqual({ step: 0, offset: 0 })
+    })
+  })
+})
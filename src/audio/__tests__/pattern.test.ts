@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { TICKS_PER_QUARTER, clampOffset, createPattern, evaluateCondition, fitsTimeSignature, getRatchetVelocity, getResolutionLength, getStepTicks } from '../pattern'
+
+describe('evaluateCondition', () => {
+  // Which of the first eight passes (from 0) a condition plays on
+  const passes = (condition: Parameters<typeof evaluateCondition>[0], fill = false) =>
+    Array.from({ length: 8 }, (_, loop) => loop).filter(loop => evaluateCondition(condition, loop, fill))
+
+  it('plays A:B on the A-th of every B passes', () => {
+    expect(passes('1:2')).toEqual([0, 2, 4, 6])
+    expect(passes('2:2')).toEqual([1, 3, 5, 7])
+    expect(passes('3:3')).toEqual([2, 5])
+    expect(passes('1:4')).toEqual([0, 4])
+    expect(passes('4:4')).toEqual([3, 7])
+  })
+
+  it('plays first only on the first pass and !first on the rest', () => {
+    expect(passes('first')).toEqual([0])
+    expect(passes('!first')).toEqual([1, 2, 3, 4, 5, 6, 7])
+  })
+
+  it('follows fill mode for fill and !fill', () => {
+    expect(passes('fill')).toEqual([])
+    expect(passes('fill', true)).toHaveLength(8)
+    expect(passes('!fill')).toHaveLength(8)
+    expect(passes('!fill', true)).toEqual([])
+  })
+
+  it('always plays always, fill or not', () => {
+    expect(passes('always')).toHaveLength(8)
+    expect(passes('always', true)).toHaveLength(8)
+  })
+})
+
+describe('getRatchetVelocity', () => {
+  const ramp = (count: number, direction: Parameters<typeof getRatchetVelocity>[3]) =>
+    Array.from({ length: count }, (_, hit) => getRatchetVelocity(0.8, hit, count, direction))
+
+  it('keeps every hit at the step velocity without a ramp', () => {
+    expect(ramp(4, 'none')).toEqual([0.8, 0.8, 0.8, 0.8])
+  })
+
+  it('climbs from a quarter of the step velocity up to it', () => {
+    expect(ramp(4, 'up')).toEqual([0.2, 0.4, 0.6, 0.8].map(value => expect.closeTo(value)))
+  })
+
+  it('falls from the step velocity down to a quarter of it', () => {
+    expect(ramp(3, 'down')).toEqual([0.8, 0.5, 0.2].map(value => expect.closeTo(value)))
+  })
+
+  it('leaves a single hit alone', () => {
+    expect(getRatchetVelocity(0.8, 0, 1, 'up')).toBe(0.8)
+  })
+})
+
+describe('getStepTicks', () => {
+  it('measures straight and triplet steps in transport ticks', () => {
+    expect(getStepTicks('8n')).toBe(TICKS_PER_QUARTER / 2)
+    expect(getStepTicks('16n')).toBe(48)
+    expect(getStepTicks('32n')).toBe(24)
+    expect(getStepTicks('8t')).toBe(64)
+    expect(getStepTicks('16t')).toBe(32)
+  })
+})
+
+describe('clampOffset', () => {
+  it('keeps offsets within half a step of the grid', () => {
+    expect(clampOffset(30, '16n')).toBe(24)
+    expect(clampOffset(-30, '16n')).toBe(-24)
+    expect(clampOffset(-30, '8n')).toBe(-30)
+    expect(clampOffset(20, '16t')).toBe(16)
+  })
+
+  it('rounds to whole ticks', () => {
+    expect(clampOffset(4.4, '16n')).toBe(4)
+    expect(clampOffset(-4.6, '16n')).toBe(-5)
+  })
+})
+
+describe('getResolutionLength', () => {
+  it('keeps the pattern duration at the new resolution', () => {
+    const pattern = createPattern(1, 32)
+
+    expect(getResolutionLength(pattern, '8n')).toBe(16)
+    expect(getResolutionLength(pattern, '16t')).toBe(48)
+    expect(getResolutionLength(pattern, '32n')).toBe(64)
+  })
+})
+
+describe('fitsTimeSignature', () => {
+  it('only fits resolutions that divide a bar into whole steps', () => {
+    expect(fitsTimeSignature({ numerator: 7, denominator: 8 }, '16n')).toBe(true)
+    expect(fitsTimeSignature({ numerator: 6, denominator: 8 }, '8t')).toBe(true)
+    expect(fitsTimeSignature({ numerator: 7, denominator: 8 }, '8t')).toBe(false)
+    expect(fitsTimeSignature({ numerator: 9, denominator: 8 }, '8t')).toBe(false)
+    expect(fitsTimeSignature({ numerator: 5, denominator: 4 }, '8t')).toBe(true)
+  })
+})
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { AudioEngine } from '../AudioEngine'
+import { PAD_COUNT } from '../pattern'
+import {
+  PROJECT_FORMAT_VERSION,
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  getSerializedLayers,
+  serializeProject
+} from '../projectFormat'
+import { ToneAudioBuffer, Transport, getContext } from '../../test/mocks/tone'
+
+vi.mock('tone', () => import('../../test/mocks/tone'))
+
+// Two frames of mono audio, as a decoded buffer would hold them
+const createAudio = () => ({
+  numberOfChannels: 1,
+  sampleRate: 8000,
+  length: 2,
+  getChannelData: () => Float32Array.of(0.5, -0.25)
+})
+
+describe('projectFormat', () => {
+  let engine: AudioEngine
+
+  beforeEach(() => {
+    Transport.reset()
+    vi.mocked(getContext().decodeAudioData).mockClear()
+    engine = new AudioEngine()
+  })
+
+  it('embeds layer audio as a base64 32-bit float WAV', () => {
+    engine.setLayerProperty(0, 0, 'buffer', new ToneAudioBuffer(createAudio()) as any)
+    engine.setLayerProperty(0, 0, 'name', 'kick.wav')
+
+    const serialized = serializeProject(engine.exportProject())
+    const [layer] = serialized.samples[0].layers
+    const view = new DataView(base64ToArrayBuffer(layer.audio!))
+
+    expect(serialized.formatVersion).toBe(PROJECT_FORMAT_VERSION)
+    expect(layer).not.toHaveProperty('buffer')
+    expect(layer.name).toBe('kick.wav')
+    expect(view.getUint16(20, true)).toBe(3)
+    expect(view.getUint16(34, true)).toBe(32)
+    expect(view.getFloat32(44, true)).toBe(0.5)
+    expect(view.getFloat32(48, true)).toBe(-0.25)
+    expect(serialized.samples[1].layers[0].audio).toBeNull()
+  })
+
+  it('round trips bytes through base64', () => {
+    const bytes = Uint8Array.from({ length: 70000 }, (_, i) => i % 256)
+
+    const decoded = new Uint8Array(base64ToArrayBuffer(arrayBufferToBase64(bytes.buffer)))
+
+    expect(decoded).toEqual(bytes)
+  })
+
+  it('turns the sample of an older project into one full-range layer', () => {
+    expect(getSerializedLayers({ name: 'snare.wav', audio: 'UklGRg==', startTime: 0.1, endTime: 0.9 })).toEqual([{
+      name: 'snare.wav',
+      audio: 'UklGRg==',
+      startTime: 0.1,
+      endTime: 0.9,
+      velocityMin: 0,
+      velocityMax: 1
+    }])
+    expect(getSerializedLayers({ name: 'Pad 2' })[0]).toMatchObject({ name: '', audio: null, startTime: 0, endTime: 1 })
+  })
+
+  it('restores the layers and pad settings of a saved project', async () => {
+    engine.setLayerProperty(3, 0, 'buffer', new ToneAudioBuffer(createAudio()) as any)
+    engine.setLayerProperty(3, 0, 'endTime', 0.5)
+    engine.setSampleProperty(3, 'tuneCoarse', -5)
+    engine.toggleStep(3, 2)
+    const saved = JSON.parse(JSON.stringify(engine.exportSerializedProject('Beat')))
+
+    const loaded = new AudioEngine()
+    await loaded.importSerializedProject(saved)
+
+    const sample = loaded.getSample(3)
+    const encoded: ArrayBuffer = (sample.layers[0].buffer!.get() as any).encoded
+    expect(new TextDecoder().decode(encoded.slice(0, 4))).toBe('RIFF')
+    expect(sample.layers[0].endTime).toBe(0.5)
+    expect(sample.tuneCoarse).toBe(-5)
+    expect(loaded.getSample(4).layers[0].buffer).toBeNull()
+    expect(loaded.getCurrentPattern().steps[3][2]).toBe(true)
+  })
+
+  it('loads a version 1 project with layerless samples for a single bank', async () => {
+    const audio = arrayBufferToBase64(new TextEncoder().encode('RIFF').buffer)
+    const { steps, velocities, ...pattern } = engine.getCurrentPattern()
+    const v1 = {
+      id: 'project-1',
+      name: 'Old',
+      formatVersion: 1,
+      currentPattern: 0,
+      bpm: 96,
+      samples: Array.from({ length: 16 }, (_, i) => ({
+        id: `sample-${i}`,
+        name: i === 0 ? 'kick.wav' : `Pad ${i + 1}`,
+        audio: i === 0 ? audio : null,
+        startTime: 0.25,
+        endTime: 0.75,
+        volume: 0.5,
+        pan: 0
+      })),
+      patterns: [{
+        id: pattern.id,
+        name: pattern.name,
+        length: 16,
+        steps: steps.slice(0, 16).map((row, i) => row.map((_, step) => i === 0 && step === 0)),
+        velocities: velocities.slice(0, 16)
+      }]
+    }
+
+    await engine.importSerializedProject(v1 as any)
+
+    const [layer] = engine.getSample(0).layers
+    expect(engine.getSamples()).toHaveLength(PAD_COUNT)
+    expect(engine.getSample(0).layers).toHaveLength(1)
+    expect(layer).toMatchObject({ name: 'kick.wav', startTime: 0.25, endTime: 0.75, velocityMin: 0, velocityMax: 1 })
+    expect(layer.buffer).not.toBeNull()
+    expect(engine.getSample(0)).not.toHaveProperty('audio')
+    expect(engine.getSample(1).layers[0].buffer).toBeNull()
+    expect(engine.getSample(20).name).toBe('Pad 21')
+    expect(engine.getSample(20).voiceMode).toBe('mono')
+    expect(engine.getCurrentPattern().steps).toHaveLength(PAD_COUNT)
+    expect(engine.getCurrentPattern().steps[0][0]).toBe(true)
+    expect(engine.getCurrentPattern().locks[40]).toHaveLength(16)
+    expect(engine.getBPM()).toBe(96)
+  })
+
+  it('starts the pads an older project lacks out empty, not as they were', async () => {
+    engine.setSampleProperty(60, 'volume', 0.2)
+    engine.setSampleProperty(60, 'pan', -0.5)
+    engine.setSampleProperty(60, 'chokeGroup', 3)
+    engine.setSampleProperty(60, 'tuneCoarse', 7)
+    engine.setSampleProperty(60, 'filterCutoff', 500)
+    const { samples, ...project } = engine.exportSerializedProject()
+
+    await engine.importSerializedProject({ ...project, samples: samples.slice(0, 16) })
+
+    expect(engine.getSample(60)).toEqual(new AudioEngine().getSample(60))
+  })
+})
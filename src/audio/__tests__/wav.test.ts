@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { encodeWav, encodeWavBlob } from '../wav'
+
+// Interleaves as left/right frames: (1, -1), (0.5, -0.5), (2, -2)
+const stereo = {
+  numberOfChannels: 2,
+  sampleRate: 48000,
+  length: 3,
+  getChannelData: (channel: number) => channel === 0 ? Float32Array.of(1, 0.5, 2) : Float32Array.of(-1, -0.5, -2)
+}
+
+const readString = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)))
+
+const readInt24 = (view: DataView, offset: number) =>
+  (view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16))
+
+describe('encodeWav', () => {
+  it.each([
+    [16, 1, 2],
+    [24, 1, 3],
+    [32, 3, 4]
+  ] as const)('writes the RIFF header for %i-bit audio', (bitDepth, format, bytesPerSample) => {
+    const view = new DataView(encodeWav(stereo, bitDepth))
+    const dataSize = 3 * 2 * bytesPerSample
+
+    expect(view.byteLength).toBe(44 + dataSize)
+    expect(readString(view, 0, 4)).toBe('RIFF')
+    expect(view.getUint32(4, true)).toBe(36 + dataSize)
+    expect(readString(view, 8, 8)).toBe('WAVEfmt ')
+    expect(view.getUint32(16, true)).toBe(16)
+    expect(view.getUint16(20, true)).toBe(format)
+    expect(view.getUint16(22, true)).toBe(2)
+    expect(view.getUint32(24, true)).toBe(48000)
+    expect(view.getUint32(28, true)).toBe(48000 * 2 * bytesPerSample)
+    expect(view.getUint16(32, true)).toBe(2 * bytesPerSample)
+    expect(view.getUint16(34, true)).toBe(bitDepth)
+    expect(readString(view, 36, 4)).toBe('data')
+    expect(view.getUint32(40, true)).toBe(dataSize)
+  })
+
+  it('interleaves 16-bit samples and clamps them to full scale', () => {
+    const view = new DataView(encodeWav(stereo, 16))
+
+    const samples = Array.from({ length: 6 }, (_, i) => view.getInt16(44 + i * 2, true))
+
+    expect(samples).toEqual([32767, -32768, 16383, -16384, 32767, -32768])
+  })
+
+  it('writes 24-bit samples as little-endian three-byte integers', () => {
+    const view = new DataView(encodeWav(stereo, 24))
+
+    const samples = Array.from({ length: 6 }, (_, i) => readInt24(view, 44 + i * 3))
+
+    expect(samples).toEqual([8388607, -8388608, 4194304, -4194304, 8388607, -8388608])
+  })
+
+  it('keeps 32-bit float samples as they are, without clamping', () => {
+    const view = new DataView(encodeWav(stereo, 32))
+
+    const samples = Array.from({ length: 6 }, (_, i) => view.getFloat32(44 + i * 4, true))
+
+    expect(samples).toEqual([1, -1, 0.5, -0.5, 2, -2])
+  })
+
+  it('wraps the file in a WAV blob', () => {
+    const blob = encodeWavBlob(stereo)
+
+    expect(blob.type).toBe('audio/wav')
+    expect(blob.size).toBe(44 + 12)
+  })
+})
@@ -0,0 +1,441 @@
+import type {
+  LockParam,
+  Pattern,
+  RatchetRamp,
+  StepCondition,
+  StepLocks,
+  StepResolution,
+  FilterType,
+  Sample,
+  SampleLayer,
+  TimeSignature,
+  VelocityCurve,
+  VoiceMode
+} from './AudioEngine';
+
+// Pattern construction and reshaping helpers. Kept free of Tone.js so the
+// pattern shape can be built anywhere (including tests).
+
+// Pads come in banks of 16, MPC-style: A01–A16 through D01–D16
+export const PAD_BANKS = ['A', 'B', 'C', 'D'];
+export const PADS_PER_BANK = 16;
+export const PAD_COUNT = PAD_BANKS.length * PADS_PER_BANK;
+export const DEFAULT_VELOCITY = 0.8;
+export const ACCENT_VELOCITY = 1;
+export const MIN_PATTERN_LENGTH = 1;
+export const MAX_PATTERN_LENGTH = 64;
+export const DEFAULT_TIME_SIGNATURE: TimeSignature = { numerator: 4, denominator: 4 };
+export const DEFAULT_RESOLUTION: StepResolution = '16n';
+// MPC-style swing: where the off-beat step of each pair lands, in percent
+export const MIN_SWING = 50;
+export const MAX_SWING = 75;
+// Tone.Transport's default pulses per quarter note; timing offsets are in these ticks
+export const TICKS_PER_QUARTER = 192;
+
+// Steps in a whole note for each resolution
+const STEPS_PER_WHOLE: Record<StepResolution, number> = {
+  '8n': 8,
+  '16n': 16,
+  '32n': 32,
+  '8t': 12,
+  '16t': 24
+};
+
+export const STEP_RESOLUTIONS: { value: StepResolution; label: string }[] = [
+  { value: '8n', label: '1/8' },
+  { value: '16n', label: '1/16' },
+  { value: '32n', label: '1/32' },
+  { value: '8t', label: '1/8T' },
+  { value: '16t', label: '1/16T' }
+];
+
+export const VELOCITY_CURVES: { value: VelocityCurve; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'log', label: 'Log' },
+  { value: 'exp', label: 'Exponential' },
+  { value: 'fixed', label: 'Fixed' }
+];
+
+// Shapes a pad press (0–1) into a velocity: log lifts soft presses,
+// exponential needs a firm press to get loud, fixed ignores the press
+export function applyVelocityCurve(pressure: number, curve: VelocityCurve): number {
+  const clamped = Math.min(1, Math.max(0, pressure));
+  switch (curve) {
+    case 'log':
+      return Math.log10(1 + 9 * clamped);
+    case 'exp':
+      return clamped * clamped;
+    case 'fixed':
+      return DEFAULT_VELOCITY;
+    default:
+      return clamped;
+  }
+}
+
+// Hits per step; 1 = a normal single hit
+export const RATCHET_COUNTS = [1, 2, 3, 4, 8];
+
+export const RATCHET_RAMPS: { value: RatchetRamp; label: string }[] = [
+  { value: 'none', label: 'Flat' },
+  { value: 'up', label: 'Up' },
+  { value: 'down', label: 'Down' }
+];
+
+// Choke groups a pad can join, numbered from 1 (0 = no group)
+export const CHOKE_GROUP_COUNT = 8;
+
+export const MAX_VOICES = 8;
+
+// Pad filters start wide open; also the top of the cutoff range
+export const DEFAULT_CUTOFF = 20000;
+
+export const VOICE_MODES: { value: VoiceMode; label: string }[] = [
+  { value: 'mono', label: 'Mono' },
+  { value: 'poly', label: 'Poly' }
+];
+
+// Pad settings beyond the sample itself, as a new pad starts out
+export type PadSettings = Omit<Sample, 'id' | 'name' | 'layers' | 'volume' | 'pan'>;
+
+// The default envelope plays the slice as-is, with fades too short to hear
+// that keep trimmed edges from clicking
+export const DEFAULT_PAD_SETTINGS: PadSettings = {
+  chokeGroup: 0,
+  voiceMode: 'mono',
+  voiceCount: 4,
+  tuneCoarse: 0,
+  tuneFine: 0,
+  attack: 0.002,
+  decay: 0.1,
+  sustain: 1,
+  release: 0.005,
+  filterType: 'lowpass',
+  filterCutoff: DEFAULT_CUTOFF,
+  filterResonance: 1,
+  filterEnvAmount: 0,
+  filterVelocity: 0
+};
+
+export const FILTER_TYPES: { value: FilterType; label: string }[] = [
+  { value: 'lowpass', label: 'Low-pass' },
+  { value: 'highpass', label: 'High-pass' },
+  { value: 'bandpass', label: 'Band-pass' }
+];
+
+export const MIN_CUTOFF = 20;
+export const MAX_RESONANCE = 20;
+// How far, at full amount, the filter envelope and velocity move the cutoff
+export const FILTER_MOD_OCTAVES = 4;
+
+export function clampCutoff(cutoff: number): number {
+  return Math.min(DEFAULT_CUTOFF, Math.max(MIN_CUTOFF, cutoff));
+}
+
+// Envelope stage times, in seconds
+export const MIN_ENVELOPE_TIME = 0.001;
+export const MAX_ENVELOPE_TIME = 2;
+
+// Pad tuning ranges: coarse in semitones, fine in cents
+export const MAX_TUNE_COARSE = 24;
+export const MAX_TUNE_FINE = 50;
+
+// A pad's tuning in semitones
+export function getSamplePitch(sample: Pick<Sample, 'tuneCoarse' | 'tuneFine'>): number {
+  return sample.tuneCoarse + sample.tuneFine / 100;
+}
+
+// Playback rate that shifts a sample by the given semitones
+export function getPitchRate(semitones: number): number {
+  return Math.pow(2, semitones / 12);
+}
+
+export function getVoiceCount(sample: Pick<Sample, 'voiceMode' | 'voiceCount'>): number {
+  return sample.voiceMode === 'poly' ? Math.min(MAX_VOICES, Math.max(1, sample.voiceCount)) : 1;
+}
+
+// Velocity layers: up to four samples per pad, each played for its own velocity range
+export const MAX_LAYERS = 4;
+
+export function createSampleLayer(): SampleLayer {
+  return { name: '', buffer: null, startTime: 0, endTime: 1, velocityMin: 0, velocityMax: 1 };
+}
+
+// An empty pad, as a new session starts out
+export function createSample(padIndex: number): Sample {
+  return {
+    id: `sample-${padIndex}`,
+    name: `Pad ${padIndex + 1}`,
+    layers: [createSampleLayer()],
+    volume: 0.8,
+    pan: 0,
+    ...DEFAULT_PAD_SETTINGS
+  };
+}
+
+// Shares the velocity range out evenly between the layers, softest first
+export function splitVelocityRanges(layers: SampleLayer[]): SampleLayer[] {
+  return layers.map((layer, index) => ({
+    ...layer,
+    velocityMin: index / layers.length,
+    velocityMax: (index + 1) / layers.length
+  }));
+}
+
+// The loaded layer a hit of this velocity plays; where ranges overlap the
+// lower layer wins, so a hit on a shared boundary plays the softer sample
+export function getLayerForVelocity(sample: Pick<Sample, 'layers'>, velocity: number): SampleLayer | null {
+  return sample.layers.find(layer =>
+    layer.buffer && velocity >= layer.velocityMin && velocity <= layer.velocityMax
+  ) ?? null;
+}
+
+export function hasLayerAudio(sample: Pick<Sample, 'layers'>): boolean {
+  return sample.layers.some(layer => layer.buffer !== null);
+}
+
+export const LOCK_PARAMS: { value: LockParam; label: string; min: number; max: number; step: number }[] = [
+  { value: 'pitch', label: 'Pitch (st)', min: -24, max: 24, step: 1 },
+  { value: 'pan', label: 'Pan', min: -1, max: 1, step: 0.1 },
+  { value: 'volume', label: 'Volume', min: 0, max: 1, step: 0.05 },
+  { value: 'cutoff', label: 'Cutoff (Hz)', min: MIN_CUTOFF, max: DEFAULT_CUTOFF, step: 10 },
+  { value: 'sampleStart', label: 'Sample start', min: 0, max: 1, step: 0.01 }
+];
+
+// Sets or clears one locked parameter, returning null once nothing is locked.
+// Values are held to the parameter's range, as a hit can't play outside it.
+export function updateStepLocks(locks: StepLocks | null, param: LockParam, value: number | null): StepLocks | null {
+  const updated: StepLocks = { ...locks };
+  if (value === null) {
+    delete updated[param];
+  } else {
+    const { min, max } = LOCK_PARAMS.find(lock => lock.value === param)!;
+    updated[param] = Math.min(max, Math.max(min, value));
+  }
+  return Object.keys(updated).length > 0 ? updated : null;
+}
+
+export const STEP_CONDITIONS: { value: StepCondition; label: string }[] = [
+  { value: 'always', label: 'Always' },
+  { value: '1:2', label: '1:2' },
+  { value: '2:2', label: '2:2' },
+  { value: '1:3', label: '1:3' },
+  { value: '2:3', label: '2:3' },
+  { value: '3:3', label: '3:3' },
+  { value: '1:4', label: '1:4' },
+  { value: '2:4', label: '2:4' },
+  { value: '3:4', label: '3:4' },
+  { value: '4:4', label: '4:4' },
+  { value: 'fill', label: 'Fill' },
+  { value: '!fill', label: 'Not fill' },
+  { value: 'first', label: 'First' },
+  { value: '!first', label: 'Not first' }
+];
+
+export const TIME_SIGNATURES: TimeSignature[] = [
+  { numerator: 2, denominator: 4 },
+  { numerator: 3, denominator: 4 },
+  { numerator: 4, denominator: 4 },
+  { numerator: 5, denominator: 4 },
+  { numerator: 6, denominator: 8 },
+  { numerator: 7, denominator: 8 },
+  { numerator: 9, denominator: 8 },
+  { numerator: 12, denominator: 8 }
+];
+
+// Steps in one bar, e.g. at 1/16: 16 for 4/4, 12 for 3/4, 14 for 7/8
+// Bars have to be a whole number of steps, so eighth-note triplets can't
+// divide a bar of 7/8 or 9/8
+export function fitsTimeSignature(timeSignature: TimeSignature, resolution: StepResolution): boolean {
+  return Number.isInteger((timeSignature.numerator * STEPS_PER_WHOLE[resolution]) / timeSignature.denominator);
+}
+
+export function getStepsPerBar(timeSignature: TimeSignature, resolution: StepResolution = DEFAULT_RESOLUTION): number {
+  return Math.max(1, Math.round(timeSignature.numerator * (STEPS_PER_WHOLE[resolution] / timeSignature.denominator)));
+}
+
+export function getStepsPerBeat(timeSignature: TimeSignature, resolution: StepResolution = DEFAULT_RESOLUTION): number {
+  return Math.max(1, Math.round(STEPS_PER_WHOLE[resolution] / timeSignature.denominator));
+}
+
+export function getStepTicks(resolution: StepResolution): number {
+  return (TICKS_PER_QUARTER * 4) / STEPS_PER_WHOLE[resolution];
+}
+
+// Offsets stay within half a step either side of the grid
+export function clampOffset(offset: number, resolution: StepResolution): number {
+  const max = getStepTicks(resolution) / 2;
+  return Math.min(max, Math.max(-max, Math.round(offset)));
+}
+
+// Whether a step condition passes on the given pass through the pattern (0 = first).
+// 'A:B' plays on the A-th of every B passes.
+export function evaluateCondition(condition: StepCondition, loop: number, fill: boolean): boolean {
+  switch (condition) {
+    case 'always':
+      return true;
+    case 'fill':
+      return fill;
+    case '!fill':
+      return !fill;
+    case 'first':
+      return loop === 0;
+    case '!first':
+      return loop !== 0;
+    default: {
+      const [a, b] = condition.split(':').map(Number);
+      return loop % b === a - 1;
+    }
+  }
+}
+
+// Velocity of one ratchet hit: ramps climb to (or fall from) the step velocity
+export function getRatchetVelocity(velocity: number, hit: number, count: number, ramp: RatchetRamp): number {
+  if (ramp === 'none' || count < 2) return velocity;
+  const position = ramp === 'up' ? hit : count - 1 - hit;
+  return velocity * (0.25 + (0.75 * position) / (count - 1));
+}
+
+// Ticks in one beat, i.e. one denominator note
+export function getBeatTicks(timeSignature: TimeSignature): number {
+  return (TICKS_PER_QUARTER * 4) / timeSignature.denominator;
+}
+
+export function getPatternBars(pattern: Pattern): number {
+  return pattern.length / getStepsPerBar(pattern.timeSignature, pattern.resolution);
+}
+
+export function clampPatternLength(length: number): number {
+  return Math.min(MAX_PATTERN_LENGTH, Math.max(MIN_PATTERN_LENGTH, Math.round(length)));
+}
+
+export function clampSwing(swing: number): number {
+  return Math.min(MAX_SWING, Math.max(MIN_SWING, swing));
+}
+
+export function createPattern(
+  number: number,
+  length: number = 16,
+  timeSignature: TimeSignature = DEFAULT_TIME_SIGNATURE,
+  resolution: StepResolution = DEFAULT_RESOLUTION
+): Pattern {
+  return {
+    id: `pattern-${number}`,
+    name: `Pattern ${number}`,
+    length,
+    timeSignature,
+    resolution,
+    swing: MIN_SWING,
+    steps: Array(PAD_COUNT).fill(null).map(() => Array(length).fill(false)),
+    velocities: Array(PAD_COUNT).fill(null).map(() => Array(length).fill(DEFAULT_VELOCITY)),
+    offsets: Array(PAD_COUNT).fill(null).map(() => Array(length).fill(0)),
+    probabilities: Array(PAD_COUNT).fill(null).map(() => Array(length).fill(100)),
+    conditions: Array(PAD_COUNT).fill(null).map(() => Array(length).fill('always')),
+    ratchets: Array(PAD_COUNT).fill(null).map(() => Array(length).fill(1)),
+    ratchetRamps: Array(PAD_COUNT).fill(null).map(() => Array(length).fill('none')),
+    locks: Array(PAD_COUNT).fill(null).map(() => Array(length).fill(null))
+  };
+}
+
+function resizeRow<T>(row: T[], length: number, fill: T): T[] {
+  return row.length >= length
+    ? row.slice(0, length)
+    : [...row, ...Array(length - row.length).fill(fill)];
+}
+
+// Returns a copy of the pattern with every per-step row cut or padded to the new length
+export function resizePattern(pattern: Pattern, length: number): Pattern {
+  const newLength = clampPatternLength(length);
+  return {
+    ...pattern,
+    length: newLength,
+    steps: pattern.steps.map(row => resizeRow(row, newLength, false)),
+    velocities: pattern.velocities.map(row => resizeRow(row, newLength, DEFAULT_VELOCITY)),
+    offsets: pattern.offsets.map(row => resizeRow(row, newLength, 0)),
+    probabilities: pattern.probabilities.map(row => resizeRow(row, newLength, 100)),
+    conditions: pattern.conditions.map(row => resizeRow<StepCondition>(row, newLength, 'always')),
+    ratchets: pattern.ratchets.map(row => resizeRow(row, newLength, 1)),
+    ratchetRamps: pattern.ratchetRamps.map(row => resizeRow<RatchetRamp>(row, newLength, 'none')),
+    locks: pattern.locks.map(row => resizeRow<StepLocks | null>(row, newLength, null))
+  };
+}
+
+// Steps the pattern needs at another resolution to keep its duration
+export function getResolutionLength(pattern: Pattern, resolution: StepResolution): number {
+  return Math.round((pattern.length * getStepTicks(pattern.resolution)) / getStepTicks(resolution));
+}
+
+// Re-grid a pattern to another resolution, keeping its duration and moving
+// each hit to the nearest new step with the remainder kept as its offset
+// (hits that land together keep the loudest). Check the new length fits first
+// with getResolutionLength: hits past the longest pattern are dropped.
+export function changePatternResolution(pattern: Pattern, resolution: StepResolution): Pattern {
+  const oldStepTicks = getStepTicks(pattern.resolution);
+  const newStepTicks = getStepTicks(resolution);
+  const resized = resizePattern({ ...pattern, resolution }, getResolutionLength(pattern, resolution));
+  const steps = resized.steps.map(row => row.map(() => false));
+  const velocities = resized.velocities.map(row => row.map(() => DEFAULT_VELOCITY));
+  const offsets = resized.offsets.map(row => row.map(() => 0));
+  const probabilities = resized.probabilities.map(row => row.map(() => 100));
+  const conditions = resized.conditions.map(row => row.map((): StepCondition => 'always'));
+  const ratchets = resized.ratchets.map(row => row.map(() => 1));
+  const ratchetRamps = resized.ratchetRamps.map(row => row.map((): RatchetRamp => 'none'));
+  const locks = resized.locks.map(row => row.map((): StepLocks | null => null));
+
+  pattern.steps.forEach((row, padIndex) => {
+    row.forEach((active, step) => {
+      const tick = step * oldStepTicks + pattern.offsets[padIndex][step];
+      const target = Math.round(tick / newStepTicks);
+      if (!active || target < 0 || target >= resized.length) return;
+
+      const velocity = pattern.velocities[padIndex][step];
+      if (steps[padIndex][target] && velocities[padIndex][target] >= velocity) return;
+
+      steps[padIndex][target] = true;
+      velocities[padIndex][target] = velocity;
+      offsets[padIndex][target] = clampOffset(tick - target * newStepTicks, resolution);
+      probabilities[padIndex][target] = pattern.probabilities[padIndex][step];
+      conditions[padIndex][target] = pattern.conditions[padIndex][step];
+      ratchets[padIndex][target] = pattern.ratchets[padIndex][step];
+      ratchetRamps[padIndex][target] = pattern.ratchetRamps[padIndex][step];
+      locks[padIndex][target] = pattern.locks[padIndex][step];
+    });
+  });
+
+  return { ...resized, steps, velocities, offsets, probabilities, conditions, ratchets, ratchetRamps, locks };
+}
+
+export function getPadBank(padIndex: number): number {
+  return Math.floor(padIndex / PADS_PER_BANK);
+}
+
+// Indices of the pads in one bank
+export function getBankPads(bank: number): number[] {
+  return Array.from({ length: PADS_PER_BANK }, (_, i) => bank * PADS_PER_BANK + i);
+}
+
+// Adds empty rows for pads the pattern has no row for
+function padRows<T>(rows: T[][], length: number, fill: T): T[][] {
+  const missing = Math.max(0, PAD_COUNT - rows.length);
+  return [...rows, ...Array(missing).fill(null).map(() => Array(length).fill(fill))];
+}
+
+// Fill in fields missing from patterns saved by older versions, including
+// rows for banks B–D in patterns saved when there was a single bank
+export function normalizePattern(pattern: Pattern): Pattern {
+  const { length } = pattern;
+  const normalized: Pattern = {
+    ...pattern,
+    timeSignature: pattern.timeSignature ?? DEFAULT_TIME_SIGNATURE,
+    resolution: pattern.resolution ?? DEFAULT_RESOLUTION,
+    swing: pattern.swing ?? MIN_SWING,
+    steps: padRows(pattern.steps, length, false),
+    velocities: padRows(pattern.velocities, length, DEFAULT_VELOCITY),
+    offsets: padRows(pattern.offsets ?? pattern.steps.map(row => row.map(() => 0)), length, 0),
+    probabilities: padRows(pattern.probabilities ?? pattern.steps.map(row => row.map(() => 100)), length, 100),
+    conditions: padRows(pattern.conditions ?? pattern.steps.map(row => row.map((): StepCondition => 'always')), length, 'always'),
+    ratchets: padRows(pattern.ratchets ?? pattern.steps.map(row => row.map(() => 1)), length, 1),
+    ratchetRamps: padRows(pattern.ratchetRamps ?? pattern.steps.map(row => row.map((): RatchetRamp => 'none')), length, 'none'),
+    locks: padRows(pattern.locks ?? pattern.steps.map(row => row.map((): StepLocks | null => null)), length, null)
+  };
+  return resizePattern(normalized, length);
+}
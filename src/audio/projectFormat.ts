@@ -0,0 +1,87 @@
+import type { Project, Sample, SampleLayer } from './AudioEngine';
+import { encodeWav } from './wav';
+
+// Bump when the serialized shape changes in a way older loaders can't read.
+// 2: samples and pattern rows cover all four pad banks (64 pads)
+// 3: each sample holds velocity layers, with the audio and trim per layer
+export const PROJECT_FORMAT_VERSION = 3;
+
+// A layer with its decoded audio embedded as a base64 encoded 32-bit float WAV,
+// so the same shape can go into IndexedDB and into a JSON download.
+export interface SerializedLayer extends Omit<SampleLayer, 'buffer'> {
+  audio: string | null;
+}
+
+export interface SerializedSample extends Omit<Sample, 'layers'> {
+  layers: SerializedLayer[];
+}
+
+// Before velocity layers, a sample's audio and trim sat on the sample itself
+interface LegacySample {
+  name?: string;
+  audio?: string | null;
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface SerializedProject extends Omit<Project, 'samples'> {
+  formatVersion: number;
+  samples: SerializedSample[];
+}
+
+export function serializeProject(project: Project): SerializedProject {
+  return {
+    ...project,
+    formatVersion: PROJECT_FORMAT_VERSION,
+    samples: project.samples.map(sample => ({
+      ...sample,
+      layers: sample.layers.map(({ buffer, ...layer }) => {
+        const audioBuffer = buffer?.loaded ? buffer.get() : undefined;
+        return {
+          ...layer,
+          audio: audioBuffer ? arrayBufferToBase64(encodeWav(audioBuffer, 32)) : null
+        };
+      })
+    }))
+  };
+}
+
+// A stored sample's layers, turning the single sample of older projects
+// into one layer that covers every velocity
+export function getSerializedLayers(sample: Partial<SerializedSample> & LegacySample): SerializedLayer[] {
+  if (sample.layers && sample.layers.length > 0) {
+    return sample.layers;
+  }
+  return [{
+    name: sample.audio ? sample.name ?? '' : '',
+    audio: sample.audio ?? null,
+    startTime: sample.startTime ?? 0,
+    endTime: sample.endTime ?? 1,
+    velocityMin: 0,
+    velocityMax: 1
+  }];
+}
+
+export function isSerializedProject(data: unknown): data is SerializedProject {
+  return typeof data === 'object' && data !== null && typeof (data as SerializedProject).formatVersion === 'number';
+}
+
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  const chunkSize = 0x8000;
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
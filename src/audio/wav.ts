@@ -0,0 +1,73 @@
+// WAV (RIFF) encoding for decoded audio.
+// 16 and 24 bit are integer PCM, 32 bit is IEEE float (lossless for Web Audio data).
+
+export type WavBitDepth = 16 | 24 | 32;
+
+interface ChannelSource {
+  numberOfChannels: number;
+  sampleRate: number;
+  length: number;
+  getChannelData(channel: number): Float32Array;
+}
+
+export function encodeWav(audio: ChannelSource, bitDepth: WavBitDepth = 16): ArrayBuffer {
+  const { numberOfChannels, sampleRate, length } = audio;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numberOfChannels * bytesPerSample;
+  const dataSize = length * blockAlign;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  // RIFF header
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+
+  // fmt chunk
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, bitDepth === 32 ? 3 : 1, true); // 3 = IEEE float, 1 = PCM
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+
+  // data chunk (interleaved)
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const channels = Array.from({ length: numberOfChannels }, (_, i) => audio.getChannelData(i));
+  let offset = 44;
+  for (let frame = 0; frame < length; frame++) {
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      const value = channels[channel][frame];
+      if (bitDepth === 32) {
+        view.setFloat32(offset, value, true);
+      } else {
+        const clamped = Math.max(-1, Math.min(1, value));
+        if (bitDepth === 16) {
+          view.setInt16(offset, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+        } else {
+          const int = Math.round(clamped < 0 ? clamped * 0x800000 : clamped * 0x7fffff);
+          view.setUint8(offset, int & 0xff);
+          view.setUint8(offset + 1, (int >> 8) & 0xff);
+          view.setUint8(offset + 2, (int >> 16) & 0xff);
+        }
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return buffer;
+}
+
+export function encodeWavBlob(audio: ChannelSource, bitDepth: WavBitDepth = 16): Blob {
+  return new Blob([encodeWav(audio, bitDepth)], { type: 'audio/wav' });
+}
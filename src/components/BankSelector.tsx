@@ -0,0 +1,27 @@
+import { PAD_BANKS } from '../audio/pattern';
+
+interface BankSelectorProps {
+  bank: number;
+  onBankChange: (bank: number) => void;
+}
+
+export function BankSelector({ bank, onBankChange }: BankSelectorProps) {
+  return (
+    <div className="flex space-x-1" role="group" aria-label="Pad bank">
+      {PAD_BANKS.map((label, index) => (
+        <button
+          key={label}
+          onClick={() => onBankChange(index)}
+          className={`px-3 py-1 rounded text-sm font-bold transition-colors ${
+            bank === index
+              ? 'bg-mpc-accent text-white'
+              : 'bg-mpc-light hover:bg-mpc-accent text-white'
+          }`}
+          aria-pressed={bank === index}
+        >
+          BANK {label}
+        </button>
+      ))}
+    </div>
+  );
+}
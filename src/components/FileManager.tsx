@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { AudioEngine, Project } from '../audio/AudioEngine';
-import { Save, FolderOpen, Download, Trash2 } from 'lucide-react';
+import { AudioEngine, BounceBitDepth, Project } from '../audio/AudioEngine';
+import { SerializedProject } from '../audio/projectFormat';
+import { Save, FolderOpen, Download, Trash2, Disc3, Layers } from 'lucide-react';
 
 interface FileManagerProps {
   audioEngine: AudioEngine;
@@ -9,7 +10,8 @@ interface FileManagerProps {
 interface StoredProject {
   id: string;
   name: string;
-  data: Project;
+  // Projects saved before audio was embedded hold a plain Project
+  data: SerializedProject | Project;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -19,6 +21,9 @@ export function FileManager({ audioEngine }: FileManagerProps) {
   const [projects, setProjects] = useState<StoredProject[]>([]);
   const [projectName, setProjectName] = useState('Untitled Project');
   const [isLoading, setIsLoading] = useState(false);
+  const [isBouncing, setIsBouncing] = useState(false);
+  const [bounceSource, setBounceSource] = useState<'pattern' | 'all' | 'song'>('pattern');
+  const [bounceBitDepth, setBounceBitDepth] = useState<BounceBitDepth>(16);
 
   useEffect(() => {
     if (isOpen) {
@@ -68,13 +73,13 @@ export function FileManager({ audioEngine }: FileManagerProps) {
   const saveProject = async () => {
     try {
       setIsLoading(true);
-      const projectData = audioEngine.exportProject();
+      const projectData = audioEngine.exportSerializedProject(projectName);
       const now = new Date();
       
       const storedProject: StoredProject = {
         id: `project-${Date.now()}`,
         name: projectName,
-        data: { ...projectData, name: projectName },
+        data: projectData,
         createdAt: now,
         updatedAt: now
       };
@@ -102,7 +107,7 @@ export function FileManager({ audioEngine }: FileManagerProps) {
   const loadProject = async (project: StoredProject) => {
     try {
       setIsLoading(true);
-      audioEngine.loadProject(project.data);
+      await audioEngine.importSerializedProject(project.data);
       setProjectName(project.name);
       setIsOpen(false);
       setIsLoading(false);
@@ -140,29 +145,54 @@ export function FileManager({ audioEngine }: FileManagerProps) {
     }
   };
 
-  const exportProject = () => {
-    const projectData = audioEngine.exportProject();
-    const dataStr = JSON.stringify({ ...projectData, name: projectName }, null, 2);
-    const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    
-    const url = URL.createObjectURL(dataBlob);
+  const downloadBlob = (blob: Blob, fileSuffix: string) => {
+    const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `${projectName.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.json`;
+    link.download = `${projectName.replace(/[^a-z0-9]/gi, '_').toLowerCase()}${fileSuffix}`;
     link.click();
     
     URL.revokeObjectURL(url);
   };
 
+  const exportProject = () => {
+    const projectData = audioEngine.exportSerializedProject(projectName);
+    const dataStr = JSON.stringify(projectData, null, 2);
+    const dataBlob = new Blob([dataStr], { type: 'application/json' });
+    downloadBlob(dataBlob, '.json');
+  };
+
+  const bounceAudio = async (stems: boolean) => {
+    try {
+      setIsBouncing(true);
+      const patternIndices = bounceSource === 'all'
+        ? audioEngine.getPatterns().map((_, index) => index)
+        : bounceSource === 'song'
+          ? audioEngine.getSongPatternIndices()
+          : undefined;
+      const options = { patternIndices, bitDepth: bounceBitDepth };
+      if (stems) {
+        downloadBlob(await audioEngine.bounceStems(options), '_stems.zip');
+      } else {
+        downloadBlob(await audioEngine.bounceToWav(options), '.wav');
+      }
+    } catch (error) {
+      console.error('Error bouncing audio:', error);
+      alert('Error bouncing audio. Please try again.');
+    } finally {
+      setIsBouncing(false);
+    }
+  };
+
   const importProject = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
         const projectData = JSON.parse(e.target?.result as string);
-        audioEngine.loadProject(projectData);
+        await audioEngine.importSerializedProject(projectData);
         setProjectName(projectData.name || 'Imported Project');
         alert('Project imported successfully!');
       } catch (error) {
@@ -249,6 +279,49 @@ export function FileManager({ audioEngine }: FileManagerProps) {
           </div>
         </div>
 
+        {/* Bounce section */}
+        <div className="mb-6 p-4 bg-mpc-gray rounded-lg">
+          <h3 className="text-lg font-semibold mb-4">Bounce to WAV</h3>
+          <div className="flex space-x-4">
+            <select
+              value={bounceSource}
+              onChange={(e) => setBounceSource(e.target.value as 'pattern' | 'all' | 'song')}
+              className="px-3 py-2 bg-mpc-dark border border-mpc-light rounded text-white"
+              aria-label="Bounce source"
+            >
+              <option value="pattern">Current Pattern</option>
+              <option value="all">All Patterns</option>
+              <option value="song">Song</option>
+            </select>
+            <select
+              value={bounceBitDepth}
+              onChange={(e) => setBounceBitDepth(parseInt(e.target.value) as BounceBitDepth)}
+              className="px-3 py-2 bg-mpc-dark border border-mpc-light rounded text-white"
+              aria-label="Bit depth"
+            >
+              <option value={16}>16-bit</option>
+              <option value={24}>24-bit</option>
+            </select>
+            <button
+              onClick={() => bounceAudio(false)}
+              disabled={isBouncing}
+              className="px-4 py-2 bg-mpc-accent hover:bg-mpc-accent/80 text-white rounded transition-colors disabled:opacity-50"
+            >
+              <Disc3 size={16} className="inline mr-2" />
+              {isBouncing ? 'Bouncing...' : 'Bounce'}
+            </button>
+            <button
+              onClick={() => bounceAudio(true)}
+              disabled={isBouncing}
+              className="px-4 py-2 bg-mpc-light hover:bg-mpc-accent text-white rounded transition-colors disabled:opacity-50"
+              title="One WAV per pad, packaged as a ZIP"
+            >
+              <Layers size={16} className="inline mr-2" />
+              Bounce Stems
+            </button>
+          </div>
+        </div>
+
         {/* Saved projects */}
         <div className="p-4 bg-mpc-gray rounded-lg">
           <h3 className="text-lg font-semibold mb-4">Saved Projects</h3>
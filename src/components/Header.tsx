@@ -9,6 +9,7 @@ export function Header({ currentView, onViewChange }: HeaderProps) {
   const views: { key: View; label: string }[] = [
     { key: 'pads', label: 'PADS' },
     { key: 'sequencer', label: 'SEQUENCER' },
+    { key: 'song', label: 'SONG' },
     { key: 'waveform', label: 'WAVEFORM' },
     { key: 'mixer', label: 'MIXER' }
   ];
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { AudioEngine } from '../audio/AudioEngine';
+import { getBankPads, hasLayerAudio } from '../audio/pattern';
 import { Volume2, VolumeX } from 'lucide-react';
+import { BankSelector } from './BankSelector';
 
 interface MixerProps {
   audioEngine: AudioEngine;
@@ -9,6 +11,8 @@ interface MixerProps {
 export function Mixer({ audioEngine }: MixerProps) {
   const [samples, setSamples] = useState(audioEngine.getSamples());
   const [masterVolume, setMasterVolume] = useState(audioEngine.getMasterVolume());
+  // One page of channels per pad bank
+  const [bank, setBank] = useState(0);
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -58,6 +62,7 @@ export function Mixer({ audioEngine }: MixerProps) {
         <h2 className="text-2xl font-bold">MIXER</h2>
         
         <div className="flex items-center space-x-4">
+          <BankSelector bank={bank} onBankChange={setBank} />
           <div className="flex items-center space-x-2">
             <Volume2 size={20} className="text-gray-400" />
             <label htmlFor="master-volume" className="text-sm text-gray-400">Master:</label>
@@ -81,88 +86,91 @@ export function Mixer({ audioEngine }: MixerProps) {
 
       {/* Mixer channels */}
       <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-4">
-        {samples.map((sample, index) => (
-          <div key={index} className="bg-mpc-gray p-4 rounded-lg flex flex-col space-y-3">
-            {/* Channel header */}
-            <div className="text-center">
-              <div className="text-sm font-medium">PAD {index + 1}</div>
-              <div className="text-xs text-gray-400 truncate" title={sample.name}>
-                {sample.name}
+        {getBankPads(bank).map((index) => {
+          const sample = samples[index];
+          return (
+            <div key={index} className="bg-mpc-gray p-4 rounded-lg flex flex-col space-y-3">
+              {/* Channel header */}
+              <div className="text-center">
+                <div className="text-sm font-medium">PAD {index + 1}</div>
+                <div className="text-xs text-gray-400 truncate" title={sample.name}>
+                  {sample.name}
+                </div>
+              </div>
+
+              {/* Volume fader */}
+              <div className="flex flex-col items-center space-y-2 flex-1">
+                <div className="text-xs text-gray-400">VOL</div>
+                <div className="flex flex-col items-center h-32">
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.01"
+                    value={sample.volume}
+                    onChange={(e) => handleVolumeChange(index, parseFloat(e.target.value))}
+                    className="slider h-24 transform -rotate-90 origin-center"
+                    style={{ width: '80px' }}
+                    aria-label={`Volume for ${sample.name || `Pad ${index + 1}`}`}
+                    title={`Volume for ${sample.name || `Pad ${index + 1}`}`}
+                  />
+                  <div className="text-xs text-center mt-2">
+                    {Math.round(sample.volume * 100)}%
+                  </div>
+                </div>
               </div>
-            </div>
 
-            {/* Volume fader */}
-            <div className="flex flex-col items-center space-y-2 flex-1">
-              <div className="text-xs text-gray-400">VOL</div>
-              <div className="flex flex-col items-center h-32">
+              {/* Pan control */}
+              <div className="space-y-2">
+                <div className="text-xs text-gray-400 text-center">PAN</div>
                 <input
                   type="range"
-                  min="0"
+                  min="-1"
                   max="1"
                   step="0.01"
-                  value={sample.volume}
-                  onChange={(e) => handleVolumeChange(index, parseFloat(e.target.value))}
-                  className="slider h-24 transform -rotate-90 origin-center"
-                  style={{ width: '80px' }}
-                  aria-label={`Volume for ${sample.name || `Pad ${index + 1}`}`}
-                  title={`Volume for ${sample.name || `Pad ${index + 1}`}`}
+                  value={sample.pan}
+                  onChange={(e) => handlePanChange(index, parseFloat(e.target.value))}
+                  className="slider w-full"
+                  aria-label={`Pan control for ${sample.name || `Pad ${index + 1}`}`}
+                  title={`Pan control for ${sample.name || `Pad ${index + 1}`}`}
                 />
-                <div className="text-xs text-center mt-2">
-                  {Math.round(sample.volume * 100)}%
+                <div className="text-xs text-center text-gray-400">
+                  {sample.pan === 0 ? 'C' : sample.pan > 0 ? `R${Math.round(sample.pan * 100)}` : `L${Math.round(Math.abs(sample.pan) * 100)}`}
                 </div>
               </div>
-            </div>
 
-            {/* Pan control */}
-            <div className="space-y-2">
-              <div className="text-xs text-gray-400 text-center">PAN</div>
-              <input
-                type="range"
-                min="-1"
-                max="1"
-                step="0.01"
-                value={sample.pan}
-                onChange={(e) => handlePanChange(index, parseFloat(e.target.value))}
-                className="slider w-full"
-                aria-label={`Pan control for ${sample.name || `Pad ${index + 1}`}`}
-                title={`Pan control for ${sample.name || `Pad ${index + 1}`}`}
-              />
-              <div className="text-xs text-center text-gray-400">
-                {sample.pan === 0 ? 'C' : sample.pan > 0 ? `R${Math.round(sample.pan * 100)}` : `L${Math.round(Math.abs(sample.pan) * 100)}`}
+              {/* Control buttons */}
+              <div className="flex space-x-1">
+                <button
+                  onClick={() => handleMute(index)}
+                  className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${
+                    sample.volume === 0
+                      ? 'bg-red-600 text-white'
+                      : 'bg-mpc-light hover:bg-red-600 text-white'
+                  }`}
+                >
+                  {sample.volume === 0 ? <VolumeX size={12} /> : 'MUTE'}
+                </button>
+
+                <button
+                  onClick={() => handleSolo(index)}
+                  className="flex-1 px-2 py-1 text-xs bg-mpc-light hover:bg-yellow-600 text-white rounded transition-colors"
+                >
+                  SOLO
+                </button>
               </div>
-            </div>
 
-            {/* Control buttons */}
-            <div className="flex space-x-1">
-              <button
-                onClick={() => handleMute(index)}
-                className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${
-                  sample.volume === 0 
-                    ? 'bg-red-600 text-white' 
-                    : 'bg-mpc-light hover:bg-red-600 text-white'
-                }`}
-              >
-                {sample.volume === 0 ? <VolumeX size={12} /> : 'MUTE'}
-              </button>
-              
+              {/* Trigger button */}
               <button
-                onClick={() => handleSolo(index)}
-                className="flex-1 px-2 py-1 text-xs bg-mpc-light hover:bg-yellow-600 text-white rounded transition-colors"
+                onClick={() => audioEngine.triggerPad(index, sample.volume)}
+                className="w-full px-2 py-2 bg-mpc-accent hover:bg-mpc-accent/80 text-white rounded transition-colors"
+                disabled={!hasLayerAudio(sample)}
               >
-                SOLO
+                PLAY
               </button>
             </div>
-
-            {/* Trigger button */}
-            <button
-              onClick={() => audioEngine.triggerPad(index, sample.volume)}
-              className="w-full px-2 py-2 bg-mpc-accent hover:bg-mpc-accent/80 text-white rounded transition-colors"
-              disabled={!sample.buffer}
-            >
-              PLAY
-            </button>
-          </div>
-        ))}
+          );
+        })}
       </div>
 
       {/* Global controls */}
@@ -1,6 +1,8 @@
-import React, { useEffect, useState, useCallback } from 'react';
-import { AudioEngine } from '../audio/AudioEngine';
+import React, { useEffect, useRef, useState, useCallback } from 'react';
+import { AudioEngine, StepResolution, VelocityCurve } from '../audio/AudioEngine';
+import { PADS_PER_BANK, STEP_RESOLUTIONS, VELOCITY_CURVES, getBankPads, getPadBank, hasLayerAudio } from '../audio/pattern';
 import { Upload } from 'lucide-react';
+import { BankSelector } from './BankSelector';
 
 interface PadGridProps {
   audioEngine: AudioEngine;
@@ -8,17 +10,42 @@ interface PadGridProps {
   onPadSelect: (padIndex: number) => void;
 }
 
+// How hard a pad was pressed (0–1): pen/touch pressure when the device reports
+// it, otherwise how high up the pad was pressed (top = loudest)
+function getPressVelocity(event: React.PointerEvent<HTMLElement>): number {
+  // 0.5 is what devices without pressure support report while pressed
+  if (event.pointerType !== 'mouse' && event.pressure > 0 && event.pressure !== 0.5) {
+    return Math.min(1, event.pressure);
+  }
+
+  const rect = event.currentTarget.getBoundingClientRect();
+  if (rect.height === 0) return 0.8;
+  return Math.min(1, Math.max(0.05, (rect.bottom - event.clientY) / rect.height));
+}
+
 export function PadGrid({ audioEngine, selectedPad, onPadSelect }: PadGridProps) {
   const [activePads, setActivePads] = useState<Set<number>>(new Set());
   const [audioInitialized, setAudioInitialized] = useState(false);
+  const [noteRepeat, setNoteRepeat] = useState(audioEngine.getNoteRepeatEnabled());
+  const [noteRepeatRate, setNoteRepeatRate] = useState(audioEngine.getNoteRepeatRate());
+  const [fullLevel, setFullLevel] = useState(audioEngine.getFullLevel());
+  const [velocityCurve, setVelocityCurve] = useState(audioEngine.getVelocityCurve());
+  // Which pad each pointer is holding, so every finger presses and releases its own pad
+  const padPointers = useRef(new Map<number, number>());
+  // Which pad each key pressed, so a key releases that pad even if the bank changed while it was held
+  const padKeys = useRef(new Map<string, number>());
+  // The bank shown is the one holding the selected pad
+  const bank = getPadBank(selectedPad);
 
-  // Keyboard mapping for pads (QWERTY layout)
+  // Keyboard mapping for the pads of the current bank (QWERTY layout)
   const keyMap: { [key: string]: number } = {
     'q': 0, 'w': 1, 'e': 2, 'r': 3,
     'a': 4, 's': 5, 'd': 6, 'f': 7,
     'z': 8, 'x': 9, 'c': 10, 'v': 11,
     '1': 12, '2': 13, '3': 14, '4': 15
   };
+  // Held with pad keys, like the Erase button
+  const eraseKey = 'backspace';
 
   const ensureAudioActive = async () => {
     if (!audioInitialized) {
@@ -28,26 +55,59 @@ export function PadGrid({ audioEngine, selectedPad, onPadSelect }: PadGridProps)
     }
   };
 
+  // Pads are held from press to release, both for the visual state and for erase and note repeat.
+  // Pads pressed to erase stay silent.
+  const pressPad = (padIndex: number, velocity: number) => {
+    setActivePads(prev => new Set(prev).add(padIndex));
+    audioEngine.setPadHeld(padIndex, true, velocity);
+    if (!audioEngine.getNoteRepeatActive() && !audioEngine.getEraseActive()) {
+      audioEngine.triggerPad(padIndex, velocity);
+    }
+  };
+
+  const releasePad = (padIndex: number) => {
+    audioEngine.setPadHeld(padIndex, false);
+    setActivePads(prev => {
+      const newSet = new Set(prev);
+      newSet.delete(padIndex);
+      return newSet;
+    });
+  };
+
   const handleKeyDown = useCallback(async (event: KeyboardEvent) => {
+    if (event.key.toLowerCase() === eraseKey) {
+      audioEngine.setEraseHeld(true);
+      return;
+    }
+    // Claimed before audio starts, so a key released meanwhile still finds its
+    // pad, and only pressed if it is still held once audio has started
+    const keyName = event.key.toLowerCase();
+    const key = keyMap[keyName];
+    const padIndex = key === undefined ? undefined : bank * PADS_PER_BANK + key;
+    const pressed = padIndex !== undefined && !padKeys.current.has(keyName) && !activePads.has(padIndex);
+    if (pressed) {
+      padKeys.current.set(keyName, padIndex);
+    }
     await ensureAudioActive();
     
-    const padIndex = keyMap[event.key.toLowerCase()];
-    if (padIndex !== undefined && !activePads.has(padIndex)) {
-      setActivePads(prev => new Set(prev).add(padIndex));
-      audioEngine.triggerPad(padIndex, 0.8);
+    if (pressed && padKeys.current.get(keyName) === padIndex) {
+      // Keys have no dynamics, so they play as a default-strength press
+      pressPad(padIndex, audioEngine.getHitVelocity(0.8));
     }
-  }, [audioEngine, activePads, keyMap, audioInitialized]);
+  }, [audioEngine, activePads, keyMap, audioInitialized, bank]);
 
   const handleKeyUp = useCallback((event: KeyboardEvent) => {
-    const padIndex = keyMap[event.key.toLowerCase()];
+    if (event.key.toLowerCase() === eraseKey) {
+      audioEngine.setEraseHeld(false);
+      return;
+    }
+    const keyName = event.key.toLowerCase();
+    const padIndex = padKeys.current.get(keyName);
     if (padIndex !== undefined) {
-      setActivePads(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(padIndex);
-        return newSet;
-      });
+      padKeys.current.delete(keyName);
+      releasePad(padIndex);
     }
-  }, [keyMap]);
+  }, [audioEngine]);
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown);
@@ -59,25 +119,66 @@ export function PadGrid({ audioEngine, selectedPad, onPadSelect }: PadGridProps)
     };
   }, [handleKeyDown, handleKeyUp]);
 
-  const handlePadClick = async (padIndex: number) => {
+  // Pads play on pointer down rather than click, so there's no click delay and
+  // several fingers can play pads at once
+  const handlePadPointerDown = async (padIndex: number, event: React.PointerEvent<HTMLElement>) => {
+    // Read the press before awaiting; React clears currentTarget once the handler returns
+    const velocity = audioEngine.getHitVelocity(getPressVelocity(event));
+    padPointers.current.set(event.pointerId, padIndex);
     await ensureAudioActive();
-    
+
     onPadSelect(padIndex);
-    audioEngine.triggerPad(padIndex, 0.8);
-    
-    // Visual feedback
-    setActivePads(prev => new Set(prev).add(padIndex));
-    setTimeout(() => {
-      setActivePads(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(padIndex);
-        return newSet;
-      });
-    }, 100);
+    // A tap can be over before audio has started
+    if (padPointers.current.get(event.pointerId) === padIndex) {
+      pressPad(padIndex, velocity);
+    }
+  };
+
+  // Moving while held changes the velocity note repeat plays at
+  const handlePadPointerMove = (padIndex: number, event: React.PointerEvent<HTMLElement>) => {
+    if (padPointers.current.get(event.pointerId) === padIndex) {
+      audioEngine.setPadHeld(padIndex, true, audioEngine.getHitVelocity(getPressVelocity(event)));
+    }
+  };
+
+  const handlePadPointerUp = (event: React.PointerEvent<HTMLElement>) => {
+    const padIndex = padPointers.current.get(event.pointerId);
+    if (padIndex === undefined) return;
+
+    padPointers.current.delete(event.pointerId);
+    // Another finger may still be holding the same pad
+    if (![...padPointers.current.values()].includes(padIndex)) {
+      releasePad(padIndex);
+    }
+  };
+
+  // Switching banks keeps the same pad position selected
+  const handleBankChange = (newBank: number) => {
+    onPadSelect(newBank * PADS_PER_BANK + (selectedPad % PADS_PER_BANK));
+  };
+
+  const handleFullLevelToggle = () => {
+    audioEngine.setFullLevel(!fullLevel);
+    setFullLevel(audioEngine.getFullLevel());
+  };
+
+  const handleVelocityCurveChange = (curve: VelocityCurve) => {
+    audioEngine.setVelocityCurve(curve);
+    setVelocityCurve(audioEngine.getVelocityCurve());
+  };
+
+  const handleNoteRepeatToggle = () => {
+    audioEngine.setNoteRepeatEnabled(!noteRepeat);
+    setNoteRepeat(audioEngine.getNoteRepeatEnabled());
+  };
+
+  const handleNoteRepeatRateChange = (rate: StepResolution) => {
+    audioEngine.setNoteRepeatRate(rate);
+    setNoteRepeatRate(audioEngine.getNoteRepeatRate());
   };
 
   const handleUploadClick = async (padIndex: number, event: React.MouseEvent) => {
-    event.stopPropagation(); // Prevent pad click
+    event.stopPropagation();
     await ensureAudioActive();
     
     const input = document.createElement('input');
@@ -93,7 +194,7 @@ export function PadGrid({ audioEngine, selectedPad, onPadSelect }: PadGridProps)
   };
 
   const getKeyForPad = (padIndex: number): string => {
-    const key = Object.keys(keyMap).find(k => keyMap[k] === padIndex);
+    const key = Object.keys(keyMap).find(k => keyMap[k] === padIndex % PADS_PER_BANK);
     return key?.toUpperCase() || '';
   };
 
@@ -114,23 +215,75 @@ export function PadGrid({ audioEngine, selectedPad, onPadSelect }: PadGridProps)
         )}
       </div>
 
+      {/* Bank, note repeat and velocity */}
+      <div className="flex items-center space-x-2">
+        <BankSelector bank={bank} onBankChange={handleBankChange} />
+
+        <button
+          onClick={handleNoteRepeatToggle}
+          className={`px-4 py-2 rounded text-sm font-bold transition-colors ${
+            noteRepeat
+              ? 'bg-mpc-accent text-white'
+              : 'bg-mpc-light hover:bg-mpc-accent text-white'
+          }`}
+          aria-pressed={noteRepeat}
+        >
+          NOTE REPEAT
+        </button>
+        <select
+          value={noteRepeatRate}
+          onChange={(e) => handleNoteRepeatRateChange(e.target.value as StepResolution)}
+          className="px-2 py-2 bg-mpc-dark border border-mpc-light rounded text-white text-sm"
+          aria-label="Note repeat rate"
+        >
+          {STEP_RESOLUTIONS.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleFullLevelToggle}
+          className={`px-4 py-2 rounded text-sm font-bold transition-colors ${
+            fullLevel
+              ? 'bg-mpc-accent text-white'
+              : 'bg-mpc-light hover:bg-mpc-accent text-white'
+          }`}
+          aria-pressed={fullLevel}
+        >
+          FULL LEVEL
+        </button>
+        <select
+          value={velocityCurve}
+          onChange={(e) => handleVelocityCurveChange(e.target.value as VelocityCurve)}
+          className="px-2 py-2 bg-mpc-dark border border-mpc-light rounded text-white text-sm"
+          aria-label="Velocity curve"
+        >
+          {VELOCITY_CURVES.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
       <div className="grid grid-cols-4 gap-4 max-w-2xl">
-        {Array.from({ length: 16 }, (_, index) => {
+        {getBankPads(bank).map((index) => {
           const sample = audioEngine.getSample(index);
           const isActive = activePads.has(index);
           const isSelected = selectedPad === index;
-          const hasSample = sample.buffer !== null;
+          const hasSample = hasLayerAudio(sample);
           const keyLabel = getKeyForPad(index);
 
           return (
             <div key={index} className="relative">
               <div
-                className={`pad w-24 h-24 flex flex-col items-center justify-center relative overflow-hidden ${
+                className={`pad w-24 h-24 flex flex-col items-center justify-center relative overflow-hidden touch-none select-none ${
                   isActive ? 'active' : ''
                 } ${isSelected ? 'ring-2 ring-mpc-blue' : ''} ${
                   hasSample ? 'bg-mpc-light' : 'bg-mpc-gray'
                 }`}
-                onClick={() => handlePadClick(index)}
+                onPointerDown={(e) => handlePadPointerDown(index, e)}
+                onPointerMove={(e) => handlePadPointerMove(index, e)}
+                onPointerUp={handlePadPointerUp}
+                onPointerLeave={handlePadPointerUp}
+                onPointerCancel={handlePadPointerUp}
               >
                 {/* Pad number and key */}
                 <div className="absolute top-1 left-1 text-xs font-mono">
@@ -144,6 +297,7 @@ export function PadGrid({ audioEngine, selectedPad, onPadSelect }: PadGridProps)
                 {!hasSample && (
                   <button
                     onClick={(e) => handleUploadClick(index, e)}
+                    onPointerDown={(e) => e.stopPropagation()}
                     className="absolute top-1 left-1/2 transform -translate-x-1/2 p-1 bg-mpc-accent hover:bg-mpc-accent/80 rounded text-xs z-10"
                     title="Upload sample"
                   >
@@ -190,7 +344,9 @@ export function PadGrid({ audioEngine, selectedPad, onPadSelect }: PadGridProps)
 
       <div className="text-center text-sm text-gray-400 max-w-md">
         <p>Click pads to trigger sounds. Use upload buttons to load audio files.</p>
-        <p>Keyboard shortcuts: Q-R, A-F, Z-V, 1-4</p>
+        <p>Keyboard shortcuts: Q-R, A-F, Z-V, 1-4 (hold Backspace to erase)</p>
+        <p>Press higher on a pad (or harder, on touch screens and pens) to play louder.</p>
+        <p>With Note Repeat on and the transport running, hold pads to retrigger them.</p>
         {!audioInitialized && (
           <p className="text-yellow-300 mt-2">
             🔊 Audio will activate on first interaction (required by browsers)
@@ -1,14 +1,56 @@
-import { useState, useEffect } from 'react';
-import { AudioEngine } from '../audio/AudioEngine';
+import { useState, useEffect, KeyboardEvent, MouseEvent, PointerEvent } from 'react';
+import { AudioEngine, LockParam, RatchetRamp, StepCondition, StepResolution } from '../audio/AudioEngine';
+import {
+  ACCENT_VELOCITY,
+  LOCK_PARAMS,
+  MAX_PATTERN_LENGTH,
+  MAX_SWING,
+  MIN_PATTERN_LENGTH,
+  MIN_SWING,
+  PAD_COUNT,
+  RATCHET_COUNTS,
+  RATCHET_RAMPS,
+  STEP_CONDITIONS,
+  STEP_RESOLUTIONS,
+  TIME_SIGNATURES,
+  fitsTimeSignature,
+  getBankPads,
+  getPadBank,
+  getPatternBars,
+  getResolutionLength,
+  getStepTicks,
+  getStepsPerBar,
+  getStepsPerBeat
+} from '../audio/pattern';
+import { BankSelector } from './BankSelector';
 
 interface SequencerProps {
   audioEngine: AudioEngine;
   selectedPad: number;
 }
 
+type Lane = 'velocity' | 'timing' | 'probability' | 'condition' | 'ratchet' | 'locks';
+
+const LANES: { id: Lane; label: string }[] = [
+  { id: 'velocity', label: 'Velocity' },
+  { id: 'timing', label: 'Timing' },
+  { id: 'probability', label: 'Probability' },
+  { id: 'condition', label: 'Condition' },
+  { id: 'ratchet', label: 'Ratchet' },
+  { id: 'locks', label: 'Locks' }
+];
+
 export function Sequencer({ audioEngine, selectedPad }: SequencerProps) {
   const [currentPattern, setCurrentPattern] = useState(audioEngine.getCurrentPattern());
   const [currentStep, setCurrentStep] = useState(0);
+  const [lane, setLane] = useState<Lane>('velocity');
+  const [lockParam, setLockParam] = useState<LockParam>('pitch');
+  const [bank, setBank] = useState(getPadBank(selectedPad));
+
+  // Follow the selected pad into its bank
+  useEffect(() => {
+    setBank(getPadBank(selectedPad));
+  }, [selectedPad]);
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -19,11 +61,50 @@ export function Sequencer({ audioEngine, selectedPad }: SequencerProps) {
     return () => clearInterval(interval);
   }, [audioEngine]);
 
-  const handleStepClick = (padIndex: number, stepIndex: number) => {
+  const handleStepClick = (padIndex: number, stepIndex: number, e: MouseEvent) => {
+    // Shift-click sets an accent instead of toggling
+    if (e.shiftKey) {
+      if (!audioEngine.getCurrentPattern().steps[padIndex][stepIndex]) {
+        audioEngine.toggleStep(padIndex, stepIndex);
+      }
+      audioEngine.setStepVelocity(padIndex, stepIndex, ACCENT_VELOCITY);
+      setCurrentPattern({ ...audioEngine.getCurrentPattern() });
+      return;
+    }
+
     audioEngine.toggleStep(padIndex, stepIndex);
     setCurrentPattern(audioEngine.getCurrentPattern());
   };
 
+  const handleVelocityChange = (stepIndex: number, velocity: number) => {
+    const clamped = Math.min(1, Math.max(0.01, Math.round(velocity * 100) / 100));
+    audioEngine.setStepVelocity(selectedPad, stepIndex, clamped);
+    setCurrentPattern({ ...audioEngine.getCurrentPattern() });
+  };
+
+  // Bars follow the pointer while the button is held, so one drag can draw a curve
+  const handleVelocityPointer = (stepIndex: number, e: PointerEvent<HTMLDivElement>) => {
+    if (!currentPattern.steps[selectedPad][stepIndex] || !(e.buttons & 1)) return;
+
+    const target = e.currentTarget;
+    if (target.hasPointerCapture?.(e.pointerId)) {
+      // Touch pointers are captured by the first bar; release so the drag can move on
+      target.releasePointerCapture(e.pointerId);
+    }
+
+    const rect = target.getBoundingClientRect();
+    if (rect.height === 0) return;
+    handleVelocityChange(stepIndex, (rect.bottom - e.clientY) / rect.height);
+  };
+
+  const handleVelocityKey = (stepIndex: number, e: KeyboardEvent<HTMLDivElement>) => {
+    const delta = e.key === 'ArrowUp' ? 0.05 : e.key === 'ArrowDown' ? -0.05 : 0;
+    if (!delta || !currentPattern.steps[selectedPad][stepIndex]) return;
+
+    e.preventDefault();
+    handleVelocityChange(stepIndex, currentPattern.velocities[selectedPad][stepIndex] + delta);
+  };
+
   const handleClearPad = (padIndex: number) => {
     const pattern = audioEngine.getCurrentPattern();
     for (let i = 0; i < pattern.length; i++) {
@@ -34,9 +115,86 @@ export function Sequencer({ audioEngine, selectedPad }: SequencerProps) {
     setCurrentPattern(audioEngine.getCurrentPattern());
   };
 
+  const handleLengthChange = (length: number) => {
+    if (isNaN(length)) return;
+    audioEngine.setPatternLength(length);
+    setCurrentPattern(audioEngine.getCurrentPattern());
+  };
+
+  const handleBarsChange = (bars: number) => {
+    if (isNaN(bars)) return;
+    audioEngine.setPatternBars(bars);
+    setCurrentPattern(audioEngine.getCurrentPattern());
+  };
+
+  const handleTimeSignatureChange = (value: string) => {
+    const [numerator, denominator] = value.split('/').map(Number);
+    if (!audioEngine.setPatternTimeSignature(numerator, denominator)) return;
+    setCurrentPattern(audioEngine.getCurrentPattern());
+  };
+
+  const handleResolutionChange = (resolution: StepResolution) => {
+    if (!audioEngine.setPatternResolution(resolution)) {
+      const label = STEP_RESOLUTIONS.find(({ value }) => value === resolution)?.label;
+      const steps = getResolutionLength(audioEngine.getCurrentPattern(), resolution);
+      // Resolutions that don't fit the time signature are disabled, so only a long pattern needs explaining
+      if (steps > MAX_PATTERN_LENGTH) {
+        alert(`At ${label} this pattern would need ${steps} steps, more than the ${MAX_PATTERN_LENGTH} a pattern can hold. Shorten the pattern first.`);
+      }
+      return;
+    }
+    setCurrentPattern(audioEngine.getCurrentPattern());
+  };
+
+  const handleOffsetChange = (stepIndex: number, offset: number) => {
+    if (isNaN(offset)) return;
+    audioEngine.setStepOffset(selectedPad, stepIndex, offset);
+    // Step edits change the pattern in place, so copy it to re-render
+    setCurrentPattern({ ...audioEngine.getCurrentPattern() });
+  };
+
+  const handleProbabilityChange = (stepIndex: number, probability: number) => {
+    if (isNaN(probability)) return;
+    audioEngine.setStepProbability(selectedPad, stepIndex, probability);
+    setCurrentPattern({ ...audioEngine.getCurrentPattern() });
+  };
+
+  const handleConditionChange = (stepIndex: number, condition: StepCondition) => {
+    audioEngine.setStepCondition(selectedPad, stepIndex, condition);
+    setCurrentPattern({ ...audioEngine.getCurrentPattern() });
+  };
+
+  const handleRatchetChange = (stepIndex: number, count: number, ramp: RatchetRamp) => {
+    audioEngine.setStepRatchet(selectedPad, stepIndex, count, ramp);
+    setCurrentPattern({ ...audioEngine.getCurrentPattern() });
+  };
+
+  // An empty field clears the lock
+  const handleLockChange = (stepIndex: number, value: string) => {
+    const parsed = parseFloat(value);
+    if (value !== '' && isNaN(parsed)) return;
+    audioEngine.setStepLock(selectedPad, stepIndex, lockParam, value === '' ? null : parsed);
+    setCurrentPattern({ ...audioEngine.getCurrentPattern() });
+  };
+
+  const handleSwingChange = (swing: number) => {
+    audioEngine.setPatternSwing(swing);
+    setCurrentPattern(audioEngine.getCurrentPattern());
+  };
+
+  const { timeSignature, resolution } = currentPattern;
+  const maxOffset = getStepTicks(resolution) / 2;
+  const lockRange = LOCK_PARAMS.find(({ value }) => value === lockParam)!;
+  const stepsPerBar = getStepsPerBar(timeSignature, resolution);
+  const stepsPerBeat = getStepsPerBeat(timeSignature, resolution);
+  const bars = getPatternBars(currentPattern);
+  // Gap before the first step of every bar after the first
+  const barGap = (stepIndex: number) => (stepIndex > 0 && stepIndex % stepsPerBar === 0 ? 'ml-2' : '');
+  const beatStart = (stepIndex: number) => (stepIndex % stepsPerBar) % stepsPerBeat === 0;
+
   const handleClearAll = () => {
     const pattern = audioEngine.getCurrentPattern();
-    for (let padIndex = 0; padIndex < 16; padIndex++) {
+    for (let padIndex = 0; padIndex < PAD_COUNT; padIndex++) {
       for (let stepIndex = 0; stepIndex < pattern.length; stepIndex++) {
         if (pattern.steps[padIndex][stepIndex]) {
           audioEngine.toggleStep(padIndex, stepIndex);
@@ -54,7 +212,8 @@ export function Sequencer({ audioEngine, selectedPad }: SequencerProps) {
           <p className="text-gray-400">Pattern: {currentPattern.name}</p>
         </div>
         
-        <div className="flex space-x-2">
+        <div className="flex items-center space-x-2">
+          <BankSelector bank={bank} onBankChange={setBank} />
           <button
             onClick={() => handleClearPad(selectedPad)}
             className="px-4 py-2 bg-mpc-light hover:bg-mpc-accent text-white rounded transition-colors"
@@ -70,57 +229,269 @@ export function Sequencer({ audioEngine, selectedPad }: SequencerProps) {
         </div>
       </div>
 
-      {/* Step numbers */}
-      <div className="flex items-center space-x-2">
-        <div className="w-20 text-sm text-gray-400 text-center">PAD</div>
-        <div className="flex space-x-1">
-          {Array.from({ length: currentPattern.length }, (_, i) => (
-            <div key={i} className="w-8 text-xs text-center text-gray-400">
-              {i + 1}
-            </div>
-          ))}
+      <div className="overflow-x-auto space-y-6">
+        {/* Step numbers */}
+        <div className="flex items-center space-x-2">
+          <div className="w-20 text-sm text-gray-400 text-center">PAD</div>
+          <div className="flex space-x-1">
+            {Array.from({ length: currentPattern.length }, (_, i) => (
+              <div
+                key={i}
+                className={`w-8 text-xs text-center text-gray-400 ${beatStart(i) ? 'font-bold' : ''} ${barGap(i)}`}
+              >
+                {i + 1}
+              </div>
+            ))}
+          </div>
         </div>
-      </div>
 
-      {/* Sequencer grid */}
-      <div className="space-y-2 max-h-96 overflow-y-auto">
-        {Array.from({ length: 16 }, (_, padIndex) => {
-          const sample = audioEngine.getSample(padIndex);
-          const isSelectedPad = padIndex === selectedPad;
-          
-          return (
-            <div key={padIndex} className="flex items-center space-x-2">
-              {/* Pad info */}
-              <div 
-                className={`w-20 p-2 text-xs rounded cursor-pointer transition-colors ${
-                  isSelectedPad 
-                    ? 'bg-mpc-accent text-white' 
-                    : 'bg-mpc-gray text-gray-300 hover:bg-mpc-light'
+        {/* Sequencer grid */}
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {getBankPads(bank).map((padIndex) => {
+            const sample = audioEngine.getSample(padIndex);
+            const isSelectedPad = padIndex === selectedPad;
+
+            return (
+              <div key={padIndex} className="flex items-center space-x-2">
+                {/* Pad info */}
+                <div
+                  className={`w-20 p-2 text-xs rounded cursor-pointer transition-colors ${
+                    isSelectedPad
+                      ? 'bg-mpc-accent text-white'
+                      : 'bg-mpc-gray text-gray-300 hover:bg-mpc-light'
+                  }`}
+                  onClick={() => audioEngine.triggerPad(padIndex, 0.8)}
+                >
+                  <div className="font-medium">{padIndex + 1}</div>
+                  <div className="truncate">{sample.name}</div>
+                </div>
+
+                {/* Steps */}
+                <div className="flex space-x-1">
+                  {Array.from({ length: currentPattern.length }, (_, stepIndex) => {
+                    const isActive = currentPattern.steps[padIndex][stepIndex];
+                    const isCurrent = stepIndex === currentStep;
+                    const velocity = currentPattern.velocities[padIndex][stepIndex];
+
+                    return (
+                      <button
+                        key={stepIndex}
+                        onClick={(e) => handleStepClick(padIndex, stepIndex, e)}
+                        className={`step ${isActive ? 'active' : ''} ${isCurrent ? 'current' : ''} ${barGap(stepIndex)}`}
+                        // Quieter steps are drawn fainter
+                        style={isActive ? { opacity: 0.4 + 0.6 * velocity } : undefined}
+                      />
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Step lanes for the selected pad */}
+        <div className="flex items-center space-x-2">
+          <div className="w-20 text-xs text-gray-400 text-center">PAD {selectedPad + 1}</div>
+          <div className="flex space-x-1">
+            {LANES.map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => setLane(id)}
+                className={`px-3 py-1 rounded text-xs transition-colors ${
+                  lane === id ? 'bg-mpc-accent text-white' : 'bg-mpc-light hover:bg-mpc-accent text-gray-300'
                 }`}
-                onClick={() => audioEngine.triggerPad(padIndex, 0.8)}
+                aria-pressed={lane === id}
               >
-                <div className="font-medium">{padIndex + 1}</div>
-                <div className="truncate">{sample.name}</div>
-              </div>
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
 
-              {/* Steps */}
-              <div className="flex space-x-1">
-                {Array.from({ length: currentPattern.length }, (_, stepIndex) => {
-                  const isActive = currentPattern.steps[padIndex][stepIndex];
-                  const isCurrent = stepIndex === currentStep;
-                  
-                  return (
-                    <button
-                      key={stepIndex}
-                      onClick={() => handleStepClick(padIndex, stepIndex)}
-                      className={`step ${isActive ? 'active' : ''} ${isCurrent ? 'current' : ''}`}
-                    />
-                  );
-                })}
-              </div>
+        {lane === 'velocity' && (
+          <div className="flex items-end space-x-2">
+            <div className="w-20 text-xs text-gray-400 text-center">VELOCITY</div>
+            <div className="flex space-x-1">
+              {Array.from({ length: currentPattern.length }, (_, stepIndex) => {
+                const isActive = currentPattern.steps[selectedPad][stepIndex];
+                const velocity = currentPattern.velocities[selectedPad][stepIndex];
+
+                return (
+                  <div
+                    key={stepIndex}
+                    role="slider"
+                    tabIndex={isActive ? 0 : -1}
+                    aria-label={`Velocity for step ${stepIndex + 1}`}
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    aria-valuenow={Math.round(velocity * 100)}
+                    aria-disabled={!isActive}
+                    onPointerDown={(e) => handleVelocityPointer(stepIndex, e)}
+                    onPointerMove={(e) => handleVelocityPointer(stepIndex, e)}
+                    onKeyDown={(e) => handleVelocityKey(stepIndex, e)}
+                    className={`velocity-bar relative w-8 h-16 bg-mpc-dark border border-mpc-light rounded overflow-hidden touch-none ${
+                      isActive ? 'cursor-ns-resize' : 'opacity-30'
+                    } ${barGap(stepIndex)}`}
+                  >
+                    {isActive && (
+                      <div
+                        className={`absolute bottom-0 left-0 right-0 ${velocity >= ACCENT_VELOCITY ? 'bg-mpc-green' : 'bg-mpc-accent'}`}
+                        style={{ height: `${velocity * 100}%` }}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Timing offsets in ticks early (-) or late (+) */}
+        {lane === 'timing' && (
+          <div className="flex items-center space-x-2">
+            <div className="w-20 text-xs text-gray-400 text-center">TIMING</div>
+            <div className="flex space-x-1">
+              {Array.from({ length: currentPattern.length }, (_, stepIndex) => (
+                <input
+                  key={stepIndex}
+                  type="number"
+                  min={-maxOffset}
+                  max={maxOffset}
+                  value={currentPattern.offsets[selectedPad][stepIndex]}
+                  disabled={!currentPattern.steps[selectedPad][stepIndex]}
+                  onChange={(e) => handleOffsetChange(stepIndex, parseInt(e.target.value))}
+                  className={`timing-offset w-8 px-0 py-1 bg-mpc-dark border border-mpc-light rounded text-[11px] text-center text-white disabled:opacity-30 ${barGap(stepIndex)}`}
+                  aria-label={`Timing offset for step ${stepIndex + 1}`}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Chance (%) that each step plays */}
+        {lane === 'probability' && (
+          <div className="flex items-center space-x-2">
+            <div className="w-20 text-xs text-gray-400 text-center">CHANCE %</div>
+            <div className="flex space-x-1">
+              {Array.from({ length: currentPattern.length }, (_, stepIndex) => (
+                <input
+                  key={stepIndex}
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={currentPattern.probabilities[selectedPad][stepIndex]}
+                  disabled={!currentPattern.steps[selectedPad][stepIndex]}
+                  onChange={(e) => handleProbabilityChange(stepIndex, parseInt(e.target.value))}
+                  className={`step-probability w-8 px-0 py-1 bg-mpc-dark border border-mpc-light rounded text-[11px] text-center text-white disabled:opacity-30 ${barGap(stepIndex)}`}
+                  aria-label={`Probability for step ${stepIndex + 1}`}
+                />
+              ))}
             </div>
-          );
-        })}
+          </div>
+        )}
+
+        {/* Trig conditions, checked against the pattern's loop count and fill mode */}
+        {lane === 'condition' && (
+          <div className="flex items-center space-x-2">
+            <div className="w-20 text-xs text-gray-400 text-center">CONDITION</div>
+            <div className="flex space-x-1">
+              {Array.from({ length: currentPattern.length }, (_, stepIndex) => (
+                <select
+                  key={stepIndex}
+                  value={currentPattern.conditions[selectedPad][stepIndex]}
+                  disabled={!currentPattern.steps[selectedPad][stepIndex]}
+                  onChange={(e) => handleConditionChange(stepIndex, e.target.value as StepCondition)}
+                  className={`step-condition w-8 py-1 bg-mpc-dark border border-mpc-light rounded text-[11px] text-white appearance-none text-center disabled:opacity-30 ${barGap(stepIndex)}`}
+                  aria-label={`Condition for step ${stepIndex + 1}`}
+                >
+                  {STEP_CONDITIONS.map(({ value, label }) => (
+                    <option key={value} value={value}>{value === 'always' ? '–' : label}</option>
+                  ))}
+                </select>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Ratchets: hits per step and their velocity ramp */}
+        {lane === 'ratchet' && (
+          <div className="flex items-center space-x-2">
+            <div className="w-20 text-xs text-gray-400 text-center">RATCHET</div>
+            <div className="flex space-x-1">
+              {Array.from({ length: currentPattern.length }, (_, stepIndex) => {
+                const isActive = currentPattern.steps[selectedPad][stepIndex];
+                const count = currentPattern.ratchets[selectedPad][stepIndex];
+                const ramp = currentPattern.ratchetRamps[selectedPad][stepIndex];
+
+                return (
+                  <div key={stepIndex} className={`w-8 flex flex-col space-y-1 ${barGap(stepIndex)}`}>
+                    <select
+                      value={count}
+                      disabled={!isActive}
+                      onChange={(e) => handleRatchetChange(stepIndex, parseInt(e.target.value), ramp)}
+                      className="w-8 py-1 bg-mpc-dark border border-mpc-light rounded text-[11px] text-white appearance-none text-center disabled:opacity-30"
+                      aria-label={`Ratchets for step ${stepIndex + 1}`}
+                    >
+                      {RATCHET_COUNTS.map(value => (
+                        <option key={value} value={value}>{value === 1 ? '–' : `×${value}`}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={ramp}
+                      disabled={!isActive || count === 1}
+                      onChange={(e) => handleRatchetChange(stepIndex, count, e.target.value as RatchetRamp)}
+                      className="w-8 py-1 bg-mpc-dark border border-mpc-light rounded text-[11px] text-white appearance-none text-center disabled:opacity-30"
+                      aria-label={`Ratchet ramp for step ${stepIndex + 1}`}
+                    >
+                      {RATCHET_RAMPS.map(({ value, label }) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Parameter locks: per-step overrides of the pad's settings */}
+        {lane === 'locks' && (
+          <div className="flex items-center space-x-2">
+            <select
+              value={lockParam}
+              onChange={(e) => setLockParam(e.target.value as LockParam)}
+              className="w-20 py-1 bg-mpc-dark border border-mpc-light rounded text-xs text-white"
+              aria-label="Lock parameter"
+            >
+              {LOCK_PARAMS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <div className="flex space-x-1">
+              {Array.from({ length: currentPattern.length }, (_, stepIndex) => {
+                const lockedValue = currentPattern.locks[selectedPad][stepIndex]?.[lockParam];
+
+                return (
+                  <input
+                    key={stepIndex}
+                    type="number"
+                    min={lockRange.min}
+                    max={lockRange.max}
+                    step={lockRange.step}
+                    value={lockedValue ?? ''}
+                    placeholder="–"
+                    disabled={!currentPattern.steps[selectedPad][stepIndex]}
+                    onChange={(e) => handleLockChange(stepIndex, e.target.value)}
+                    className={`step-lock w-8 px-0 py-1 bg-mpc-dark border rounded text-[11px] text-center text-white disabled:opacity-30 ${
+                      lockedValue !== undefined ? 'border-mpc-accent' : 'border-mpc-light'
+                    } ${barGap(stepIndex)}`}
+                    aria-label={`Lock for step ${stepIndex + 1}`}
+                  />
+                );
+              })}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Pattern controls */}
@@ -129,9 +500,86 @@ export function Sequencer({ audioEngine, selectedPad }: SequencerProps) {
           <div className="text-sm text-gray-400">
             Pattern Length: {currentPattern.length} steps
           </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-400">
+            <span>Steps</span>
+            <input
+              type="number"
+              min={MIN_PATTERN_LENGTH}
+              max={MAX_PATTERN_LENGTH}
+              value={currentPattern.length}
+              onChange={(e) => handleLengthChange(parseInt(e.target.value))}
+              className="w-16 px-2 py-1 bg-mpc-dark border border-mpc-light rounded text-center text-white"
+              aria-label="Pattern length"
+            />
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-400">
+            <span>Bars</span>
+            <input
+              type="number"
+              min="1"
+              max={Math.floor(MAX_PATTERN_LENGTH / stepsPerBar)}
+              value={Math.ceil(bars)}
+              onChange={(e) => handleBarsChange(parseInt(e.target.value))}
+              className="w-14 px-2 py-1 bg-mpc-dark border border-mpc-light rounded text-center text-white"
+              aria-label="Pattern bars"
+            />
+          </label>
+          <select
+            value={`${timeSignature.numerator}/${timeSignature.denominator}`}
+            onChange={(e) => handleTimeSignatureChange(e.target.value)}
+            className="px-2 py-1 bg-mpc-dark border border-mpc-light rounded text-white text-sm"
+            aria-label="Time signature"
+          >
+            {/* Time signatures the resolution can't divide into whole steps are disabled */}
+            {TIME_SIGNATURES.map(({ numerator, denominator }) => (
+              <option
+                key={`${numerator}/${denominator}`}
+                value={`${numerator}/${denominator}`}
+                disabled={!fitsTimeSignature({ numerator, denominator }, resolution)}
+              >
+                {numerator}/{denominator}
+              </option>
+            ))}
+          </select>
+          <select
+            value={resolution}
+            onChange={(e) => handleResolutionChange(e.target.value as StepResolution)}
+            className="px-2 py-1 bg-mpc-dark border border-mpc-light rounded text-white text-sm"
+            aria-label="Step resolution"
+          >
+            {STEP_RESOLUTIONS.map(({ value, label }) => (
+              <option key={value} value={value} disabled={!fitsTimeSignature(timeSignature, value)}>{label}</option>
+            ))}
+          </select>
+          <label className="flex items-center space-x-2 text-sm text-gray-400">
+            <span>Swing</span>
+            <input
+              type="range"
+              min={MIN_SWING}
+              max={MAX_SWING}
+              value={currentPattern.swing}
+              onChange={(e) => handleSwingChange(parseInt(e.target.value))}
+              className="slider w-24"
+              aria-label="Swing"
+            />
+            <span className="w-10 text-white">{currentPattern.swing}%</span>
+          </label>
         </div>
         
         <div className="flex space-x-2">
+          <select
+            value={audioEngine.getPatterns().findIndex(p => p.id === currentPattern.id)}
+            onChange={(e) => {
+              audioEngine.setCurrentPattern(parseInt(e.target.value));
+              setCurrentPattern(audioEngine.getCurrentPattern());
+            }}
+            className="px-3 py-2 bg-mpc-dark border border-mpc-light rounded text-white"
+            aria-label="Current pattern"
+          >
+            {audioEngine.getPatterns().map((pattern, index) => (
+              <option key={pattern.id} value={index}>{pattern.name}</option>
+            ))}
+          </select>
           <button
             onClick={() => audioEngine.addPattern()}
             className="px-4 py-2 bg-mpc-light hover:bg-mpc-accent text-white rounded transition-colors"
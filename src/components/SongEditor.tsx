@@ -0,0 +1,190 @@
+import { useState, useEffect } from 'react';
+import { AudioEngine } from '../audio/AudioEngine';
+import { ArrowUp, ArrowDown, Trash2, Plus } from 'lucide-react';
+
+interface SongEditorProps {
+  audioEngine: AudioEngine;
+}
+
+export function SongEditor({ audioEngine }: SongEditorProps) {
+  const [song, setSong] = useState(audioEngine.getSong());
+  const [patterns, setPatterns] = useState(audioEngine.getPatterns());
+  const [songMode, setSongMode] = useState(audioEngine.getSongMode());
+  const [songPosition, setSongPosition] = useState(audioEngine.getSongPosition());
+  const [isPlaying, setIsPlaying] = useState(audioEngine.getIsPlaying());
+  const [newEntryPattern, setNewEntryPattern] = useState(0);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setSong(audioEngine.getSong());
+      setPatterns(audioEngine.getPatterns());
+      setSongMode(audioEngine.getSongMode());
+      setSongPosition(audioEngine.getSongPosition());
+      setIsPlaying(audioEngine.getIsPlaying());
+    }, 100);
+
+    return () => clearInterval(interval);
+  }, [audioEngine]);
+
+  const refresh = () => {
+    setSong(audioEngine.getSong());
+    setSongMode(audioEngine.getSongMode());
+    setSongPosition(audioEngine.getSongPosition());
+  };
+
+  const handleAddEntry = () => {
+    audioEngine.addSongEntry(newEntryPattern);
+    refresh();
+  };
+
+  const handleToggleSongMode = () => {
+    audioEngine.setSongMode(!songMode);
+    refresh();
+  };
+
+  const totalPasses = song.reduce((total, entry) => {
+    const pattern = patterns.find(p => p.id === entry.patternId);
+    return total + (pattern ? entry.repeats : 0);
+  }, 0);
+
+  return (
+    <div className="flex flex-col space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">SONG</h2>
+          <p className="text-gray-400">
+            {song.length} {song.length === 1 ? 'entry' : 'entries'}, {totalPasses} pattern {totalPasses === 1 ? 'pass' : 'passes'}
+          </p>
+        </div>
+
+        <button
+          onClick={handleToggleSongMode}
+          className={`px-4 py-2 rounded transition-colors ${
+            songMode
+              ? 'bg-mpc-green text-black'
+              : 'bg-mpc-light hover:bg-mpc-accent text-white'
+          }`}
+          aria-pressed={songMode}
+        >
+          Song Mode: {songMode ? 'ON' : 'OFF'}
+        </button>
+      </div>
+
+      {/* Arrangement */}
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {song.length === 0 ? (
+          <div className="text-center py-8 text-gray-400">No patterns in the song yet</div>
+        ) : (
+          song.map((entry, index) => {
+            const patternIndex = patterns.findIndex(p => p.id === entry.patternId);
+            const isCurrent = songMode && isPlaying && index === songPosition;
+
+            return (
+              <div
+                key={entry.id}
+                className={`song-entry flex items-center space-x-4 p-3 rounded ${
+                  isCurrent ? 'bg-mpc-accent/30 ring-2 ring-mpc-green' : 'bg-mpc-gray'
+                }`}
+              >
+                <div className="w-8 text-sm font-mono text-gray-400">{index + 1}</div>
+
+                <select
+                  value={patternIndex}
+                  onChange={(e) => {
+                    audioEngine.setSongEntryPattern(index, parseInt(e.target.value));
+                    refresh();
+                  }}
+                  className="flex-1 px-3 py-2 bg-mpc-dark border border-mpc-light rounded text-white"
+                  aria-label={`Pattern for song entry ${index + 1}`}
+                >
+                  {patternIndex === -1 && <option value={-1}>Missing pattern</option>}
+                  {patterns.map((pattern, i) => (
+                    <option key={pattern.id} value={i}>{pattern.name}</option>
+                  ))}
+                </select>
+
+                <label className="flex items-center space-x-2 text-sm text-gray-400">
+                  <span>×</span>
+                  <input
+                    type="number"
+                    min="1"
+                    max="99"
+                    value={entry.repeats}
+                    onChange={(e) => {
+                      audioEngine.setSongEntryRepeats(index, parseInt(e.target.value) || 1);
+                      refresh();
+                    }}
+                    className="w-16 px-2 py-1 bg-mpc-dark border border-mpc-light rounded text-center text-white"
+                    aria-label={`Repeats for song entry ${index + 1}`}
+                  />
+                </label>
+
+                <div className="flex space-x-1">
+                  <button
+                    onClick={() => {
+                      audioEngine.moveSongEntry(index, -1);
+                      refresh();
+                    }}
+                    disabled={index === 0}
+                    className="p-2 bg-mpc-light hover:bg-mpc-accent text-white rounded transition-colors disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp size={14} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      audioEngine.moveSongEntry(index, 1);
+                      refresh();
+                    }}
+                    disabled={index === song.length - 1}
+                    className="p-2 bg-mpc-light hover:bg-mpc-accent text-white rounded transition-colors disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown size={14} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      audioEngine.removeSongEntry(index);
+                      refresh();
+                    }}
+                    className="p-2 bg-red-600 hover:bg-red-700 text-white rounded transition-colors"
+                    title="Remove"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {/* Add entry */}
+      <div className="flex items-center space-x-4 pt-4 border-t border-mpc-light">
+        <select
+          value={newEntryPattern}
+          onChange={(e) => setNewEntryPattern(parseInt(e.target.value))}
+          className="px-3 py-2 bg-mpc-dark border border-mpc-light rounded text-white"
+          aria-label="Pattern to add"
+        >
+          {patterns.map((pattern, i) => (
+            <option key={pattern.id} value={i}>{pattern.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleAddEntry}
+          className="px-4 py-2 bg-mpc-light hover:bg-mpc-accent text-white rounded transition-colors"
+        >
+          <Plus size={16} className="inline mr-2" />
+          Add to Song
+        </button>
+      </div>
+
+      {/* Instructions */}
+      <div className="text-sm text-gray-400 text-center">
+        <p>Chain patterns into an arrangement. Each entry plays its pattern the given number of times.</p>
+        <p>Turn on Song Mode to play the arrangement from the transport.</p>
+      </div>
+    </div>
+  );
+}
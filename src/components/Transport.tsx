@@ -1,6 +1,7 @@
-import { useState, useEffect } from 'react';
-import { Play, Square, Circle, RotateCcw } from 'lucide-react';
-import { AudioEngine } from '../audio/AudioEngine';
+import { useState, useEffect, ChangeEvent, PointerEvent } from 'react';
+import { Play, Square, Circle, RotateCcw, Timer, Eraser } from 'lucide-react';
+import { AudioEngine, CountInBars, RecordMode, RecordQuantize } from '../audio/AudioEngine';
+import { STEP_RESOLUTIONS } from '../audio/pattern';
 
 interface TransportProps {
   audioEngine: AudioEngine;
@@ -9,14 +10,32 @@ interface TransportProps {
 export function Transport({ audioEngine }: TransportProps) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
+  const [fillActive, setFillActive] = useState(audioEngine.getFillActive());
   const [bpm, setBpm] = useState(120);
+  const [quantizeStrength, setQuantizeStrength] = useState(audioEngine.getQuantizeStrength());
+  const [recordQuantize, setRecordQuantize] = useState(audioEngine.getRecordQuantize());
+  const [recordMode, setRecordMode] = useState(audioEngine.getRecordMode());
+  const [isCountingIn, setIsCountingIn] = useState(false);
+  const [eraseHeld, setEraseHeld] = useState(false);
+  const [eraseLatched, setEraseLatched] = useState(audioEngine.getEraseLatched());
+  // Erase can also be held from the keyboard, in the pad grid
+  const [eraseActive, setEraseActive] = useState(audioEngine.getEraseActive());
+  const [metronomeEnabled, setMetronomeEnabled] = useState(audioEngine.getMetronomeEnabled());
+  const [metronomeLevel, setMetronomeLevel] = useState(audioEngine.getMetronomeLevel());
+  const [countInBars, setCountInBars] = useState(audioEngine.getCountInBars());
+  const [clickSampleName, setClickSampleName] = useState(audioEngine.getMetronomeSampleName());
   const [currentStep, setCurrentStep] = useState(0);
+  const [patternLength, setPatternLength] = useState(audioEngine.getCurrentPattern().length);
 
   useEffect(() => {
     const interval = setInterval(() => {
       setIsPlaying(audioEngine.getIsPlaying());
       setIsRecording(audioEngine.getIsRecording());
+      setFillActive(audioEngine.getFillActive());
+      setIsCountingIn(audioEngine.getIsCountingIn());
+      setEraseActive(audioEngine.getEraseActive());
       setCurrentStep(audioEngine.getCurrentStep());
+      setPatternLength(audioEngine.getCurrentPattern().length);
     }, 50);
 
     return () => clearInterval(interval);
@@ -43,11 +62,86 @@ export function Transport({ audioEngine }: TransportProps) {
     }
   };
 
+  const handleFill = () => {
+    audioEngine.setFillActive(!fillActive);
+    setFillActive(audioEngine.getFillActive());
+  };
+
+  // Erase acts while the button is held down, or until latch is turned off
+  const handleEraseHeld = (held: boolean) => {
+    if (held === eraseHeld) return;
+    audioEngine.setEraseHeld(held);
+    setEraseHeld(held);
+    setEraseActive(audioEngine.getEraseActive());
+  };
+
+  // The button keeps the pointer, so erase is held until it's let go anywhere
+  const handleErasePointerDown = (event: PointerEvent<HTMLButtonElement>) => {
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    handleEraseHeld(true);
+  };
+
+  const handleEraseLatch = () => {
+    audioEngine.setEraseLatched(!eraseLatched);
+    setEraseLatched(audioEngine.getEraseLatched());
+    setEraseActive(audioEngine.getEraseActive());
+  };
+
+  const handleMetronomeToggle = () => {
+    audioEngine.setMetronomeEnabled(!metronomeEnabled);
+    setMetronomeEnabled(audioEngine.getMetronomeEnabled());
+  };
+
+  const handleMetronomeLevelChange = (level: number) => {
+    audioEngine.setMetronomeLevel(level);
+    setMetronomeLevel(audioEngine.getMetronomeLevel());
+  };
+
+  const handleCountInChange = (bars: CountInBars) => {
+    audioEngine.setCountInBars(bars);
+    setCountInBars(audioEngine.getCountInBars());
+  };
+
+  const handleClickSampleChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      await audioEngine.loadMetronomeSample(file);
+      setClickSampleName(audioEngine.getMetronomeSampleName());
+    } catch (error) {
+      console.error('Failed to load click sample:', error);
+      alert('Failed to load click sample');
+    }
+    event.target.value = '';
+  };
+
+  const handleClearClickSample = () => {
+    audioEngine.clearMetronomeSample();
+    setClickSampleName(audioEngine.getMetronomeSampleName());
+  };
+
   const handleBpmChange = (newBpm: number) => {
     setBpm(newBpm);
     audioEngine.setBPM(newBpm);
   };
 
+  const handleRecordQuantizeChange = (quantize: RecordQuantize) => {
+    audioEngine.setRecordQuantize(quantize);
+    setRecordQuantize(audioEngine.getRecordQuantize());
+  };
+
+  const handleRecordModeChange = (mode: RecordMode) => {
+    audioEngine.setRecordMode(mode);
+    setRecordMode(audioEngine.getRecordMode());
+  };
+
+  const handleQuantizeStrengthChange = (strength: number) => {
+    if (isNaN(strength)) return;
+    audioEngine.setQuantizeStrength(strength);
+    setQuantizeStrength(audioEngine.getQuantizeStrength());
+  };
+
   return (
     <div className="bg-mpc-gray p-4 flex items-center justify-between">
       {/* Transport Controls */}
@@ -88,13 +182,55 @@ export function Transport({ audioEngine }: TransportProps) {
         >
           <RotateCcw size={20} />
         </button>
+
+        <button
+          onPointerDown={handleErasePointerDown}
+          onPointerUp={() => handleEraseHeld(false)}
+          onPointerCancel={() => handleEraseHeld(false)}
+          onLostPointerCapture={() => handleEraseHeld(false)}
+          className={`p-3 rounded-lg transition-colors touch-none ${
+            eraseActive
+              ? 'bg-red-600 text-white'
+              : 'bg-mpc-light hover:bg-red-600 text-white'
+          }`}
+          aria-pressed={eraseActive}
+          title="Erase: hold (or hold Backspace) with pads to remove their steps as the playhead passes"
+        >
+          <Eraser size={20} />
+        </button>
+
+        <button
+          onClick={handleEraseLatch}
+          className={`px-3 py-3 rounded-lg text-sm font-bold transition-colors ${
+            eraseLatched
+              ? 'bg-red-600 text-white'
+              : 'bg-mpc-light hover:bg-red-600 text-white'
+          }`}
+          aria-pressed={eraseLatched}
+          title="Latch erase: keeps erase on so pads can be pressed to erase with a mouse"
+        >
+          LATCH
+        </button>
+
+        <button
+          onClick={handleFill}
+          className={`px-3 py-3 rounded-lg text-sm font-bold transition-colors ${
+            fillActive
+              ? 'bg-mpc-accent text-white'
+              : 'bg-mpc-light hover:bg-mpc-accent text-white'
+          }`}
+          aria-pressed={fillActive}
+          title="Fill: plays steps with the Fill condition"
+        >
+          FILL
+        </button>
       </div>
 
       {/* Step Indicator */}
       <div className="flex items-center space-x-2">
         <span className="text-sm text-gray-400">STEP:</span>
-        <div className="flex space-x-1">
-          {Array.from({ length: 16 }, (_, i) => (
+        <div className="flex flex-wrap gap-1 max-w-md">
+          {Array.from({ length: patternLength }, (_, i) => (
             <div
               key={i}
               className={`w-3 h-3 rounded-full border ${
@@ -135,12 +271,106 @@ export function Transport({ audioEngine }: TransportProps) {
             +
           </button>
         </div>
+
+        <div className="flex items-center space-x-2">
+          <label className="text-sm text-gray-400">Q:</label>
+          <select
+            value={recordQuantize}
+            onChange={(e) => handleRecordQuantizeChange(e.target.value as RecordQuantize)}
+            className="px-2 py-1 bg-mpc-dark border border-mpc-light rounded text-white text-sm"
+            aria-label="Record quantize"
+          >
+            <option value="step">Step</option>
+            {STEP_RESOLUTIONS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="5"
+            value={quantizeStrength}
+            onChange={(e) => handleQuantizeStrengthChange(parseInt(e.target.value))}
+            className="w-16 px-2 py-1 bg-mpc-dark border border-mpc-light rounded text-center text-white"
+            aria-label="Quantize strength"
+            title="Record quantize strength (%)"
+          />
+          <select
+            value={recordMode}
+            onChange={(e) => handleRecordModeChange(e.target.value as RecordMode)}
+            className="px-2 py-1 bg-mpc-dark border border-mpc-light rounded text-white text-sm"
+            aria-label="Record mode"
+          >
+            <option value="overdub">Overdub</option>
+            <option value="replace">Replace</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Metronome */}
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={handleMetronomeToggle}
+          className={`p-3 rounded-lg transition-colors ${
+            metronomeEnabled
+              ? 'bg-mpc-accent text-white'
+              : 'bg-mpc-light hover:bg-mpc-accent text-white'
+          }`}
+          aria-pressed={metronomeEnabled}
+          title="Metronome"
+        >
+          <Timer size={20} />
+        </button>
+        <input
+          type="range"
+          min="0"
+          max="1"
+          step="0.05"
+          value={metronomeLevel}
+          onChange={(e) => handleMetronomeLevelChange(parseFloat(e.target.value))}
+          className="slider w-20"
+          aria-label="Metronome level"
+        />
+        <select
+          value={countInBars}
+          onChange={(e) => handleCountInChange(parseInt(e.target.value) as CountInBars)}
+          className="px-2 py-1 bg-mpc-dark border border-mpc-light rounded text-white text-sm"
+          aria-label="Count-in"
+        >
+          <option value={0}>No count-in</option>
+          <option value={1}>1 bar</option>
+          <option value={2}>2 bars</option>
+        </select>
+        <label
+          className="px-2 py-1 bg-mpc-light hover:bg-mpc-accent text-white rounded text-sm cursor-pointer max-w-[6rem] truncate"
+          title="Load click sample"
+        >
+          {clickSampleName ?? 'Synth click'}
+          <input
+            type="file"
+            accept="audio/*"
+            onChange={handleClickSampleChange}
+            className="hidden"
+            aria-label="Click sample"
+          />
+        </label>
+        {clickSampleName && (
+          <button
+            onClick={handleClearClickSample}
+            className="px-2 py-1 bg-mpc-light hover:bg-mpc-accent text-white rounded text-sm"
+            title="Use synth click"
+          >
+            ✕
+          </button>
+        )}
       </div>
 
       {/* Status */}
       <div className="text-sm text-gray-400">
+        {isCountingIn && <span className="text-yellow-400 font-medium">● COUNT IN</span>}
         {isRecording && <span className="text-red-400 font-medium">● REC</span>}
-        {isPlaying && !isRecording && <span className="text-mpc-green font-medium">▶ PLAY</span>}
+        {isPlaying && !isRecording && !isCountingIn && <span className="text-mpc-green font-medium">▶ PLAY</span>}
         {!isPlaying && !isRecording && <span>⏸ STOP</span>}
       </div>
     </div>
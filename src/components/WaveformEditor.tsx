@@ -1,21 +1,55 @@
 import { useEffect, useRef, useState } from 'react';
 import WaveSurfer from 'wavesurfer.js';
-import { AudioEngine } from '../audio/AudioEngine';
-import { Play, Square, Volume2 } from 'lucide-react';
+import { AudioEngine, FilterType, SampleLayer, VoiceMode } from '../audio/AudioEngine';
+import {
+  CHOKE_GROUP_COUNT,
+  DEFAULT_CUTOFF,
+  FILTER_TYPES,
+  MAX_ENVELOPE_TIME,
+  MAX_LAYERS,
+  MAX_RESONANCE,
+  MAX_TUNE_COARSE,
+  MAX_TUNE_FINE,
+  MAX_VOICES,
+  MIN_CUTOFF,
+  VOICE_MODES,
+  hasLayerAudio
+} from '../audio/pattern';
+import { Play, Plus, Square, Trash2, Volume2 } from 'lucide-react';
 
 interface WaveformEditorProps {
   audioEngine: AudioEngine;
   selectedPad: number;
 }
 
+type EnvelopeStage = 'attack' | 'decay' | 'sustain' | 'release';
+
+// Sustain is a level; the other stages are times in seconds
+const ENVELOPE_STAGES: { stage: EnvelopeStage; label: string; max: number; step: number }[] = [
+  { stage: 'attack', label: 'Attack', max: MAX_ENVELOPE_TIME, step: 0.001 },
+  { stage: 'decay', label: 'Decay', max: MAX_ENVELOPE_TIME, step: 0.001 },
+  { stage: 'sustain', label: 'Sustain', max: 1, step: 0.01 },
+  { stage: 'release', label: 'Release', max: MAX_ENVELOPE_TIME, step: 0.001 }
+];
+
+// The cutoff slider moves in octaves rather than Hz
+const CUTOFF_RANGE = Math.log(DEFAULT_CUTOFF / MIN_CUTOFF);
+const cutoffToSlider = (cutoff: number) => Math.log(cutoff / MIN_CUTOFF) / CUTOFF_RANGE;
+const sliderToCutoff = (value: number) => Math.round(MIN_CUTOFF * Math.exp(value * CUTOFF_RANGE));
+
+const formatCutoff = (cutoff: number) => (cutoff >= 1000 ? `${(cutoff / 1000).toFixed(1)} kHz` : `${cutoff} Hz`);
+
 export function WaveformEditor({ audioEngine, selectedPad }: WaveformEditorProps) {
   const waveformRef = useRef<HTMLDivElement>(null);
   const wavesurfer = useRef<WaveSurfer | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [sample, setSample] = useState(audioEngine.getSample(selectedPad));
+  const [layerIndex, setLayerIndex] = useState(0);
+  const layer = sample.layers[layerIndex] ?? sample.layers[0];
 
   useEffect(() => {
     setSample(audioEngine.getSample(selectedPad));
+    setLayerIndex(0);
   }, [selectedPad, audioEngine]);
 
   useEffect(() => {
@@ -30,8 +64,8 @@ export function WaveformEditor({ audioEngine, selectedPad }: WaveformEditorProps
       let peaks: Float32Array[] | undefined;
       let duration: number | undefined;
 
-      if (sample.buffer) {
-        const audioBuffer = sample.buffer.get();
+      if (layer.buffer) {
+        const audioBuffer = layer.buffer.get();
         if (audioBuffer) {
           peaks = [];
           for (let i = 0; i < audioBuffer.numberOfChannels; i++) {
@@ -67,7 +101,7 @@ export function WaveformEditor({ audioEngine, selectedPad }: WaveformEditorProps
         wavesurfer.current = null;
       }
     };
-  }, [sample.buffer]); // Recreate when buffer changes
+  }, [layer.buffer]); // Recreate when buffer changes
 
   const handlePlay = () => {
     if (wavesurfer.current) {
@@ -100,17 +134,69 @@ export function WaveformEditor({ audioEngine, selectedPad }: WaveformEditorProps
     setSample(audioEngine.getSample(selectedPad));
   };
 
-  const handleStartTimeChange = (startTime: number) => {
-    audioEngine.setSampleProperty(selectedPad, 'startTime', startTime);
+  const handleChokeGroupChange = (chokeGroup: number) => {
+    audioEngine.setSampleProperty(selectedPad, 'chokeGroup', chokeGroup);
+    setSample(audioEngine.getSample(selectedPad));
+  };
+
+  const handleTuneChange = (property: 'tuneCoarse' | 'tuneFine', value: number) => {
+    audioEngine.setSampleProperty(selectedPad, property, value);
+    setSample(audioEngine.getSample(selectedPad));
+  };
+
+  const handleEnvelopeChange = (stage: EnvelopeStage, value: number) => {
+    audioEngine.setSampleProperty(selectedPad, stage, value);
+    setSample(audioEngine.getSample(selectedPad));
+  };
+
+  const handleFilterChange = (
+    property: 'filterType' | 'filterCutoff' | 'filterResonance' | 'filterEnvAmount' | 'filterVelocity',
+    value: FilterType | number
+  ) => {
+    audioEngine.setSampleProperty(selectedPad, property, value);
+    setSample(audioEngine.getSample(selectedPad));
+  };
+
+  const handleVoiceModeChange = (voiceMode: VoiceMode) => {
+    audioEngine.setSampleProperty(selectedPad, 'voiceMode', voiceMode);
+    setSample(audioEngine.getSample(selectedPad));
+  };
+
+  const handleVoiceCountChange = (voiceCount: number) => {
+    if (isNaN(voiceCount)) return;
+    audioEngine.setSampleProperty(selectedPad, 'voiceCount', Math.min(MAX_VOICES, Math.max(1, voiceCount)));
     setSample(audioEngine.getSample(selectedPad));
   };
 
-  const handleEndTimeChange = (endTime: number) => {
-    audioEngine.setSampleProperty(selectedPad, 'endTime', endTime);
+  // Trim and velocity range belong to the layer being edited
+  const handleLayerChange = (property: keyof Omit<SampleLayer, 'name' | 'buffer'>, value: number) => {
+    audioEngine.setLayerProperty(selectedPad, layerIndex, property, value);
     setSample(audioEngine.getSample(selectedPad));
   };
 
-  if (!sample.buffer) {
+  const handleAddLayer = () => {
+    const newLayer = sample.layers.length;
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'audio/*';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) {
+        await audioEngine.loadSample(selectedPad, file, newLayer);
+        setSample(audioEngine.getSample(selectedPad));
+        setLayerIndex(newLayer);
+      }
+    };
+    input.click();
+  };
+
+  const handleRemoveLayer = () => {
+    audioEngine.removeSampleLayer(selectedPad, layerIndex);
+    setSample(audioEngine.getSample(selectedPad));
+    setLayerIndex(Math.max(0, layerIndex - 1));
+  };
+
+  if (!hasLayerAudio(sample)) {
     return (
       <div className="flex flex-col items-center justify-center h-96 space-y-4">
         <div className="text-gray-400 text-center">
@@ -153,13 +239,53 @@ export function WaveformEditor({ audioEngine, selectedPad }: WaveformEditorProps
         </div>
       </div>
 
+      {/* Velocity layers */}
+      <div className="flex items-center space-x-2">
+        <div className="flex space-x-1" role="group" aria-label="Velocity layer">
+          {sample.layers.map((_, index) => (
+            <button
+              key={index}
+              onClick={() => setLayerIndex(index)}
+              className={`px-3 py-1 rounded text-sm font-bold transition-colors ${
+                layerIndex === index
+                  ? 'bg-mpc-accent text-white'
+                  : 'bg-mpc-light hover:bg-mpc-accent text-white'
+              }`}
+              aria-pressed={layerIndex === index}
+            >
+              LAYER {index + 1}
+            </button>
+          ))}
+        </div>
+        {sample.layers.length < MAX_LAYERS && (
+          <button
+            onClick={handleAddLayer}
+            className="p-2 bg-mpc-light hover:bg-mpc-accent text-white rounded transition-colors"
+            aria-label="Add layer"
+            title="Add a layer (splits the velocity range evenly)"
+          >
+            <Plus size={16} />
+          </button>
+        )}
+        {sample.layers.length > 1 && (
+          <button
+            onClick={handleRemoveLayer}
+            className="p-2 bg-mpc-light hover:bg-red-600 text-white rounded transition-colors"
+            aria-label="Remove layer"
+          >
+            <Trash2 size={16} />
+          </button>
+        )}
+        <span className="text-sm text-gray-400 truncate">{layer.name}</span>
+      </div>
+
       {/* Waveform display */}
       <div className="bg-mpc-gray p-4 rounded-lg">
         <div ref={waveformRef} className="w-full" />
       </div>
 
       {/* Sample controls */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         {/* Trim controls */}
         <div className="space-y-4">
           <h3 className="text-lg font-semibold">Trim</h3>
@@ -172,12 +298,12 @@ export function WaveformEditor({ audioEngine, selectedPad }: WaveformEditorProps
               min="0"
               max="1"
               step="0.01"
-              value={sample.startTime}
-              onChange={(e) => handleStartTimeChange(parseFloat(e.target.value))}
+              value={layer.startTime}
+              onChange={(e) => handleLayerChange('startTime', parseFloat(e.target.value))}
               className="slider w-full"
             />
             <div className="text-xs text-gray-400">
-              {(sample.startTime * (sample.buffer?.duration || 0)).toFixed(2)}s (start)
+              {(layer.startTime * (layer.buffer?.duration || 0)).toFixed(2)}s (start)
             </div>
           </div>
 
@@ -189,12 +315,43 @@ export function WaveformEditor({ audioEngine, selectedPad }: WaveformEditorProps
               min="0"
               max="1"
               step="0.01"
-              value={sample.endTime}
-              onChange={(e) => handleEndTimeChange(parseFloat(e.target.value))}
+              value={layer.endTime}
+              onChange={(e) => handleLayerChange('endTime', parseFloat(e.target.value))}
+              className="slider w-full"
+            />
+            <div className="text-xs text-gray-400">
+              {(layer.endTime * (layer.buffer?.duration || 0)).toFixed(2)}s (end)
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="velocity-min-slider" className="block text-sm text-gray-400">Velocity Min</label>
+            <input
+              id="velocity-min-slider"
+              type="range"
+              min="0"
+              max={layer.velocityMax}
+              step="0.01"
+              value={layer.velocityMin}
+              onChange={(e) => handleLayerChange('velocityMin', parseFloat(e.target.value))}
+              className="slider w-full"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="velocity-max-slider" className="block text-sm text-gray-400">Velocity Max</label>
+            <input
+              id="velocity-max-slider"
+              type="range"
+              min={layer.velocityMin}
+              max="1"
+              step="0.01"
+              value={layer.velocityMax}
+              onChange={(e) => handleLayerChange('velocityMax', parseFloat(e.target.value))}
               className="slider w-full"
             />
             <div className="text-xs text-gray-400">
-              {(sample.endTime * (sample.buffer?.duration || 0)).toFixed(2)}s (end)
+              Plays hits from {Math.round(layer.velocityMin * 100)}% to {Math.round(layer.velocityMax * 100)}%
             </div>
           </div>
         </div>
@@ -223,6 +380,95 @@ export function WaveformEditor({ audioEngine, selectedPad }: WaveformEditorProps
           </div>
         </div>
 
+        {/* Playback */}
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold">Playback</h3>
+
+          <div className="space-y-2">
+            <label htmlFor="tune-coarse-slider" className="block text-sm text-gray-400">Coarse Tune</label>
+            <input
+              id="tune-coarse-slider"
+              type="range"
+              min={-MAX_TUNE_COARSE}
+              max={MAX_TUNE_COARSE}
+              step="1"
+              value={sample.tuneCoarse}
+              onChange={(e) => handleTuneChange('tuneCoarse', parseInt(e.target.value))}
+              className="slider w-full"
+            />
+            <div className="text-xs text-gray-400">
+              {sample.tuneCoarse > 0 ? '+' : ''}{sample.tuneCoarse} st
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="tune-fine-slider" className="block text-sm text-gray-400">Fine Tune</label>
+            <input
+              id="tune-fine-slider"
+              type="range"
+              min={-MAX_TUNE_FINE}
+              max={MAX_TUNE_FINE}
+              step="1"
+              value={sample.tuneFine}
+              onChange={(e) => handleTuneChange('tuneFine', parseInt(e.target.value))}
+              className="slider w-full"
+            />
+            <div className="text-xs text-gray-400">
+              {sample.tuneFine > 0 ? '+' : ''}{sample.tuneFine} ct
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="voice-mode" className="block text-sm text-gray-400">Voices</label>
+            <div className="flex space-x-2">
+              <select
+                id="voice-mode"
+                value={sample.voiceMode}
+                onChange={(e) => handleVoiceModeChange(e.target.value as VoiceMode)}
+                className="flex-1 px-3 py-2 bg-mpc-dark border border-mpc-light rounded text-white"
+              >
+                {VOICE_MODES.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              {sample.voiceMode === 'poly' && (
+                <input
+                  type="number"
+                  min="1"
+                  max={MAX_VOICES}
+                  value={sample.voiceCount}
+                  onChange={(e) => handleVoiceCountChange(parseInt(e.target.value))}
+                  className="w-16 px-2 py-1 bg-mpc-dark border border-mpc-light rounded text-center text-white"
+                  aria-label="Voice count"
+                />
+              )}
+            </div>
+            <div className="text-xs text-gray-400">
+              {sample.voiceMode === 'poly'
+                ? `Up to ${sample.voiceCount} hits ring out together`
+                : 'Each hit cuts off the previous one'}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="choke-group" className="block text-sm text-gray-400">Choke Group</label>
+            <select
+              id="choke-group"
+              value={sample.chokeGroup}
+              onChange={(e) => handleChokeGroupChange(parseInt(e.target.value))}
+              className="w-full px-3 py-2 bg-mpc-dark border border-mpc-light rounded text-white"
+            >
+              <option value={0}>Off</option>
+              {Array.from({ length: CHOKE_GROUP_COUNT }, (_, i) => (
+                <option key={i + 1} value={i + 1}>Group {i + 1}</option>
+              ))}
+            </select>
+            <div className="text-xs text-gray-400">
+              Pads in the same group cut each other off
+            </div>
+          </div>
+        </div>
+
         {/* Processing */}
         <div className="space-y-4">
           <h3 className="text-lg font-semibold">Processing</h3>
@@ -252,25 +498,135 @@ export function WaveformEditor({ audioEngine, selectedPad }: WaveformEditorProps
         </div>
       </div>
 
+      {/* Amplitude envelope */}
+      <div className="bg-mpc-gray p-4 rounded-lg">
+        <h3 className="text-lg font-semibold mb-2">Envelope</h3>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {ENVELOPE_STAGES.map(({ stage, label, max, step }) => (
+            <div key={stage} className="space-y-2">
+              <label htmlFor={`envelope-${stage}`} className="block text-sm text-gray-400">{label}</label>
+              <input
+                id={`envelope-${stage}`}
+                type="range"
+                min="0"
+                max={max}
+                step={step}
+                value={sample[stage]}
+                onChange={(e) => handleEnvelopeChange(stage, parseFloat(e.target.value))}
+                className="slider w-full"
+              />
+              <div className="text-xs text-gray-400">
+                {stage === 'sustain'
+                  ? `${Math.round(sample.sustain * 100)}%`
+                  : `${Math.round(sample[stage] * 1000)} ms`}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Filter */}
+      <div className="bg-mpc-gray p-4 rounded-lg">
+        <h3 className="text-lg font-semibold mb-2">Filter</h3>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <div className="space-y-2">
+            <label htmlFor="filter-type" className="block text-sm text-gray-400">Type</label>
+            <select
+              id="filter-type"
+              value={sample.filterType}
+              onChange={(e) => handleFilterChange('filterType', e.target.value as FilterType)}
+              className="w-full px-3 py-2 bg-mpc-dark border border-mpc-light rounded text-white"
+            >
+              {FILTER_TYPES.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="filter-cutoff" className="block text-sm text-gray-400">Cutoff</label>
+            <input
+              id="filter-cutoff"
+              type="range"
+              min="0"
+              max="1"
+              step="0.001"
+              value={cutoffToSlider(sample.filterCutoff)}
+              onChange={(e) => handleFilterChange('filterCutoff', sliderToCutoff(parseFloat(e.target.value)))}
+              className="slider w-full"
+            />
+            <div className="text-xs text-gray-400">{formatCutoff(sample.filterCutoff)}</div>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="filter-resonance" className="block text-sm text-gray-400">Resonance</label>
+            <input
+              id="filter-resonance"
+              type="range"
+              min="0.1"
+              max={MAX_RESONANCE}
+              step="0.1"
+              value={sample.filterResonance}
+              onChange={(e) => handleFilterChange('filterResonance', parseFloat(e.target.value))}
+              className="slider w-full"
+            />
+            <div className="text-xs text-gray-400">Q {sample.filterResonance}</div>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="filter-env" className="block text-sm text-gray-400">Env Amount</label>
+            <input
+              id="filter-env"
+              type="range"
+              min="-1"
+              max="1"
+              step="0.01"
+              value={sample.filterEnvAmount}
+              onChange={(e) => handleFilterChange('filterEnvAmount', parseFloat(e.target.value))}
+              className="slider w-full"
+            />
+            <div className="text-xs text-gray-400">{Math.round(sample.filterEnvAmount * 100)}%</div>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="filter-velocity" className="block text-sm text-gray-400">Velocity → Cutoff</label>
+            <input
+              id="filter-velocity"
+              type="range"
+              min="0"
+              max="1"
+              step="0.01"
+              value={sample.filterVelocity}
+              onChange={(e) => handleFilterChange('filterVelocity', parseFloat(e.target.value))}
+              className="slider w-full"
+            />
+            <div className="text-xs text-gray-400">{Math.round(sample.filterVelocity * 100)}%</div>
+          </div>
+        </div>
+        <div className="text-xs text-gray-400 mt-2">
+          The envelope amount sweeps the cutoff over the attack and decay; velocity closes the filter on softer hits.
+        </div>
+      </div>
+
       {/* Sample info */}
       <div className="bg-mpc-gray p-4 rounded-lg">
         <h3 className="text-lg font-semibold mb-2">Sample Info</h3>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
           <div>
             <span className="text-gray-400">Duration:</span>
-            <div>{(sample.buffer?.duration || 0).toFixed(2)}s</div>
+            <div>{(layer.buffer?.duration || 0).toFixed(2)}s</div>
           </div>
           <div>
             <span className="text-gray-400">Sample Rate:</span>
-            <div>{sample.buffer?.sampleRate || 0} Hz</div>
+            <div>{layer.buffer?.sampleRate || 0} Hz</div>
           </div>
           <div>
             <span className="text-gray-400">Channels:</span>
-            <div>{sample.buffer?.numberOfChannels || 0}</div>
+            <div>{layer.buffer?.numberOfChannels || 0}</div>
           </div>
           <div>
             <span className="text-gray-400">Size:</span>
-            <div>{sample.buffer ? Math.round(sample.buffer.length / 1024) : 0} KB</div>
+            <div>{layer.buffer ? Math.round(layer.buffer.length / 1024) : 0} KB</div>
           </div>
         </div>
       </div>
@@ -128,6 +128,74 @@ describe('FileManager', () => {
     expect(mockAudioEngine.exportProject).toHaveBeenCalled()
   })
 
+  // The serialized format itself is covered in src/audio/__tests__/projectFormat.test.ts
+  it('exports the serialized project as a JSON download', () => {
+    render(<FileManager audioEngine={mockAudioEngine} />)
+
+    fireEvent.click(screen.getByTitle('File Manager'))
+    fireEvent.click(screen.getByText('Export Project'))
+
+    expect(mockAudioEngine.exportSerializedProject).toHaveBeenCalledWith('Untitled Project')
+    const [blob] = vi.mocked(URL.createObjectURL).mock.calls[0] as [Blob]
+    expect(blob.type).toBe('application/json')
+  })
+
+  it('bounces the current pattern to a WAV download', async () => {
+    render(<FileManager audioEngine={mockAudioEngine} />)
+
+    fireEvent.click(screen.getByTitle('File Manager'))
+    fireEvent.change(screen.getByLabelText('Bit depth'), { target: { value: '24' } })
+    fireEvent.click(screen.getByText('Bounce'))
+
+    await waitFor(() => {
+      expect(mockAudioEngine.bounceToWav).toHaveBeenCalledWith({ patternIndices: undefined, bitDepth: 24 })
+      expect(URL.createObjectURL).toHaveBeenCalled()
+    })
+  })
+
+  it('bounces all patterns as a chain', async () => {
+    mockAudioEngine.addPattern()
+
+    render(<FileManager audioEngine={mockAudioEngine} />)
+
+    fireEvent.click(screen.getByTitle('File Manager'))
+    fireEvent.change(screen.getByLabelText('Bounce source'), { target: { value: 'all' } })
+    fireEvent.click(screen.getByText('Bounce'))
+
+    await waitFor(() => {
+      expect(mockAudioEngine.bounceToWav).toHaveBeenCalledWith({ patternIndices: [0, 1], bitDepth: 16 })
+    })
+  })
+
+  it('bounces the song arrangement', async () => {
+    mockAudioEngine.addPattern()
+    mockAudioEngine.addSongEntry(1, 2)
+    mockAudioEngine.addSongEntry(0, 1)
+
+    render(<FileManager audioEngine={mockAudioEngine} />)
+
+    fireEvent.click(screen.getByTitle('File Manager'))
+    fireEvent.change(screen.getByLabelText('Bounce source'), { target: { value: 'song' } })
+    fireEvent.click(screen.getByText('Bounce'))
+
+    await waitFor(() => {
+      expect(mockAudioEngine.bounceToWav).toHaveBeenCalledWith({ patternIndices: [1, 1, 0], bitDepth: 16 })
+    })
+  })
+
+  it('bounces per-pad stems as a single download', async () => {
+    render(<FileManager audioEngine={mockAudioEngine} />)
+
+    fireEvent.click(screen.getByTitle('File Manager'))
+    fireEvent.click(screen.getByText('Bounce Stems'))
+
+    await waitFor(() => {
+      expect(mockAudioEngine.bounceStems).toHaveBeenCalledWith({ patternIndices: undefined, bitDepth: 16 })
+      expect(URL.createObjectURL).toHaveBeenCalledTimes(1)
+    })
+    expect(mockAudioEngine.bounceToWav).not.toHaveBeenCalled()
+  })
+
   it('has proper accessibility', () => {
     render(<FileManager audioEngine={mockAudioEngine} />)
     
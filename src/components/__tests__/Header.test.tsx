@@ -30,6 +30,7 @@ describe('Header', () => {
     
     expect(screen.getByText('PADS')).toBeInTheDocument()
     expect(screen.getByText('SEQUENCER')).toBeInTheDocument()
+    expect(screen.getByText('SONG')).toBeInTheDocument()
     expect(screen.getByText('WAVEFORM')).toBeInTheDocument()
     expect(screen.getByText('MIXER')).toBeInTheDocument()
   })
@@ -76,7 +77,7 @@ describe('Header', () => {
     render(<Header {...defaultProps} />)
     
     const buttons = screen.getAllByRole('button')
-    expect(buttons).toHaveLength(4)
+    expect(buttons).toHaveLength(5)
     
     buttons.forEach(button => {
       expect(button.tagName).toBe('BUTTON')
@@ -35,6 +35,18 @@ describe('Mixer', () => {
     }
   })
 
+  it('pages through the pad banks', () => {
+    render(<Mixer audioEngine={mockAudioEngine} />)
+
+    fireEvent.click(screen.getByText('BANK B'))
+
+    expect(screen.getByText('PAD 17')).toBeInTheDocument()
+    expect(screen.queryByText('PAD 1')).not.toBeInTheDocument()
+
+    fireEvent.change(screen.getAllByLabelText(/Volume for/)[0], { target: { value: '0.5' } })
+    expect(mockAudioEngine.setSampleProperty).toHaveBeenCalledWith(16, 'volume', 0.5)
+  })
+
   it('updates master volume when slider changes', () => {
     render(<Mixer audioEngine={mockAudioEngine} />)
     
@@ -104,7 +116,7 @@ describe('Mixer', () => {
   it('triggers pad playback when play button is clicked', () => {
     // Mock the first sample to have a buffer so the play button is enabled
     const samplesWithBuffer = mockAudioEngine.getSamples()
-    samplesWithBuffer[0].buffer = {} // Mock buffer
+    samplesWithBuffer[0].layers[0].buffer = {} // Mock buffer
     mockAudioEngine.getSamples.mockReturnValue(samplesWithBuffer)
     
     render(<Mixer audioEngine={mockAudioEngine} />)
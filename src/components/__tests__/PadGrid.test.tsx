@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react'
 import { PadGrid } from '../PadGrid'
 import { createMockAudioEngine } from '../../test/mocks/AudioEngine'
 import type { AudioEngine } from '../../audio/AudioEngine'
@@ -59,12 +59,12 @@ describe('PadGrid', () => {
     expect(screen.getByText('⚠️ Click any pad to activate audio')).toBeInTheDocument()
   })
 
-  it('triggers pad and calls onPadSelect when pad is clicked', async () => {
+  it('triggers pad and calls onPadSelect when pad is pressed', async () => {
     render(<PadGrid {...defaultProps} />)
     
     // Find the first pad container directly
     const firstPad = document.querySelector('.pad')!
-    fireEvent.click(firstPad)
+    fireEvent.pointerDown(firstPad)
     
     // Wait for async operations to complete
     await waitFor(() => {
@@ -96,9 +96,7 @@ describe('PadGrid', () => {
     mockAudioEngine.getSample.mockImplementation((padIndex: number) => ({
       id: `sample-${padIndex}`,
       name: padIndex === 0 ? sampleName : `Pad ${padIndex + 1}`,
-      buffer: padIndex === 0 ? {} : null, // Mock buffer for pad 0
-      startTime: 0,
-      endTime: 1,
+      layers: [{ name: '', buffer: padIndex === 0 ? {} : null, startTime: 0, endTime: 1, velocityMin: 0, velocityMax: 1 }], // Mock buffer for pad 0
       volume: 0.8,
       pan: 0
     }))
@@ -113,9 +111,7 @@ describe('PadGrid', () => {
     mockAudioEngine.getSample.mockImplementation((padIndex: number) => ({
       id: `sample-${padIndex}`,
       name: `Pad ${padIndex + 1}`,
-      buffer: padIndex === 0 ? {} : null, // Mock buffer for pad 0
-      startTime: 0,
-      endTime: 1,
+      layers: [{ name: '', buffer: padIndex === 0 ? {} : null, startTime: 0, endTime: 1, velocityMin: 0, velocityMax: 1 }], // Mock buffer for pad 0
       volume: 0.7,
       pan: 0
     }))
@@ -130,9 +126,7 @@ describe('PadGrid', () => {
     mockAudioEngine.getSample.mockImplementation((padIndex: number) => ({
       id: `sample-${padIndex}`,
       name: `Pad ${padIndex + 1}`,
-      buffer: padIndex === 0 ? {} : null, // Mock buffer for pad 0
-      startTime: 0,
-      endTime: 1,
+      layers: [{ name: '', buffer: padIndex === 0 ? {} : null, startTime: 0, endTime: 1, velocityMin: 0, velocityMax: 1 }], // Mock buffer for pad 0
       volume: 0.8,
       pan: 0
     }))
@@ -196,6 +190,182 @@ describe('PadGrid', () => {
     })
   })
 
+  it('reports held pads to the engine for erase', async () => {
+    render(<PadGrid {...defaultProps} />)
+
+    const thirdPad = document.querySelectorAll('.pad')[2]
+    fireEvent.pointerDown(thirdPad)
+    await waitFor(() => {
+      expect(mockAudioEngine.setPadHeld).toHaveBeenCalledWith(2, true, 0.8)
+    })
+    fireEvent.pointerUp(thirdPad)
+    expect(mockAudioEngine.setPadHeld).toHaveBeenLastCalledWith(2, false)
+
+    fireEvent.keyDown(window, { key: 'w' })
+    await waitFor(() => {
+      expect(mockAudioEngine.setPadHeld).toHaveBeenLastCalledWith(1, true, 0.8)
+    })
+    fireEvent.keyUp(window, { key: 'w' })
+    expect(mockAudioEngine.setPadHeld).toHaveBeenLastCalledWith(1, false)
+  })
+
+  it('holds erase with the backspace key and keeps erasing pads silent', async () => {
+    render(<PadGrid {...defaultProps} />)
+
+    fireEvent.keyDown(window, { key: 'Backspace' })
+    expect(mockAudioEngine.setEraseHeld).toHaveBeenLastCalledWith(true)
+
+    fireEvent.pointerDown(document.querySelectorAll('.pad')[2])
+    await waitFor(() => {
+      expect(mockAudioEngine.setPadHeld).toHaveBeenCalledWith(2, true, 0.8)
+    })
+    expect(mockAudioEngine.triggerPad).not.toHaveBeenCalled()
+
+    fireEvent.keyUp(window, { key: 'Backspace' })
+    expect(mockAudioEngine.setEraseHeld).toHaveBeenLastCalledWith(false)
+  })
+
+  it('switches banks and plays the current bank from the keyboard', async () => {
+    render(<PadGrid {...defaultProps} selectedPad={18} />)
+
+    // Pad 19 is the third pad of bank B
+    expect(screen.getByText('BANK B')).toHaveAttribute('aria-pressed', 'true')
+    expect(screen.getByText('17')).toBeInTheDocument()
+    expect(screen.queryByText('16')).not.toBeInTheDocument()
+
+    fireEvent.keyDown(window, { key: 'q' })
+    await waitFor(() => {
+      expect(mockAudioEngine.triggerPad).toHaveBeenCalledWith(16, 0.8)
+    })
+
+    fireEvent.click(screen.getByText('BANK D'))
+    expect(mockOnPadSelect).toHaveBeenCalledWith(50)
+  })
+
+  it('releases the pad a key pressed after the bank changes', async () => {
+    const { rerender } = render(<PadGrid {...defaultProps} selectedPad={0} />)
+
+    fireEvent.keyDown(window, { key: 'q' })
+    await waitFor(() => {
+      expect(mockAudioEngine.setPadHeld).toHaveBeenLastCalledWith(0, true, 0.8)
+    })
+
+    rerender(<PadGrid {...defaultProps} selectedPad={16} />)
+    fireEvent.keyUp(window, { key: 'q' })
+
+    expect(mockAudioEngine.setPadHeld).toHaveBeenLastCalledWith(0, false)
+    expect(mockAudioEngine.setPadHeld).not.toHaveBeenCalledWith(16, false)
+  })
+
+  it('does not hold pads released before audio has started', async () => {
+    let startAudio = () => {}
+    mockAudioEngine.init.mockReturnValue(new Promise<void>(resolve => { startAudio = resolve }))
+    render(<PadGrid {...defaultProps} />)
+
+    const thirdPad = document.querySelectorAll('.pad')[2]
+    fireEvent.keyDown(window, { key: 'q' })
+    fireEvent.keyUp(window, { key: 'q' })
+    fireEvent.pointerDown(thirdPad)
+    fireEvent.pointerUp(thirdPad)
+    await act(async () => startAudio())
+
+    await waitFor(() => {
+      expect(mockOnPadSelect).toHaveBeenCalledWith(2)
+    })
+    expect(mockAudioEngine.setPadHeld).not.toHaveBeenCalledWith(expect.any(Number), true, expect.any(Number))
+    expect(mockAudioEngine.triggerPad).not.toHaveBeenCalled()
+  })
+
+  it('plays louder the higher up a pad is pressed', async () => {
+    render(<PadGrid {...defaultProps} />)
+
+    const firstPad = document.querySelector('.pad') as HTMLElement
+    firstPad.getBoundingClientRect = () => ({ top: 0, bottom: 100, height: 100 } as DOMRect)
+    fireEvent.pointerDown(firstPad, { clientY: 80 })
+
+    await waitFor(() => {
+      expect(mockAudioEngine.triggerPad).toHaveBeenCalledWith(0, 0.2)
+    })
+  })
+
+  it('uses pen pressure for the press velocity', async () => {
+    render(<PadGrid {...defaultProps} />)
+
+    const firstPad = document.querySelector('.pad') as HTMLElement
+    fireEvent.pointerDown(firstPad, { pointerType: 'pen', pressure: 0.3 })
+
+    await waitFor(() => {
+      expect(mockAudioEngine.triggerPad).toHaveBeenCalledWith(0, 0.3)
+    })
+  })
+
+  it('applies full level and the velocity curve', async () => {
+    render(<PadGrid {...defaultProps} />)
+
+    fireEvent.change(screen.getByLabelText('Velocity curve'), { target: { value: 'fixed' } })
+    expect(mockAudioEngine.setVelocityCurve).toHaveBeenCalledWith('fixed')
+
+    fireEvent.click(screen.getByText('FULL LEVEL'))
+    expect(screen.getByText('FULL LEVEL')).toHaveAttribute('aria-pressed', 'true')
+
+    fireEvent.keyDown(window, { key: 'q' })
+    await waitFor(() => {
+      expect(mockAudioEngine.triggerPad).toHaveBeenCalledWith(0, 1)
+    })
+  })
+
+  it('plays several pads at once with separate touches', async () => {
+    render(<PadGrid {...defaultProps} />)
+
+    const pads = document.querySelectorAll('.pad')
+    fireEvent.pointerDown(pads[0], { pointerId: 1, pointerType: 'touch' })
+    fireEvent.pointerDown(pads[5], { pointerId: 2, pointerType: 'touch' })
+
+    await waitFor(() => {
+      expect(mockAudioEngine.triggerPad).toHaveBeenCalledWith(0, 0.8)
+      expect(mockAudioEngine.triggerPad).toHaveBeenCalledWith(5, 0.8)
+    })
+    expect(pads[0]).toHaveClass('active')
+    expect(pads[5]).toHaveClass('active')
+
+    // Lifting one finger releases only its own pad
+    fireEvent.pointerUp(pads[0], { pointerId: 1, pointerType: 'touch' })
+    await waitFor(() => {
+      expect(pads[0]).not.toHaveClass('active')
+    })
+    expect(pads[5]).toHaveClass('active')
+    expect(mockAudioEngine.setPadHeld).not.toHaveBeenCalledWith(5, false)
+  })
+
+  it('sets the note repeat mode and rate', () => {
+    render(<PadGrid {...defaultProps} />)
+
+    fireEvent.click(screen.getByText('NOTE REPEAT'))
+    fireEvent.change(screen.getByLabelText('Note repeat rate'), { target: { value: '16t' } })
+
+    expect(mockAudioEngine.setNoteRepeatEnabled).toHaveBeenCalledWith(true)
+    expect(screen.getByText('NOTE REPEAT')).toHaveAttribute('aria-pressed', 'true')
+    expect(mockAudioEngine.setNoteRepeatRate).toHaveBeenCalledWith('16t')
+  })
+
+  it('holds pads for note repeat instead of triggering them while playing', async () => {
+    mockAudioEngine.setNoteRepeatEnabled(true)
+    mockAudioEngine.play()
+
+    render(<PadGrid {...defaultProps} />)
+
+    const firstPad = document.querySelector('.pad') as HTMLElement
+    firstPad.getBoundingClientRect = () => ({ top: 0, bottom: 100, height: 100 } as DOMRect)
+    fireEvent.pointerDown(firstPad, { clientY: 25 })
+
+    await waitFor(() => {
+      expect(mockOnPadSelect).toHaveBeenCalledWith(0)
+    })
+    // Higher presses repeat louder
+    expect(mockAudioEngine.setPadHeld).toHaveBeenCalledWith(0, true, 0.75)
+    expect(mockAudioEngine.triggerPad).not.toHaveBeenCalled()
+  })
+
   it('creates file input when upload button is clicked', async () => {
     const mockClick = vi.fn()
     
@@ -238,7 +408,7 @@ describe('PadGrid', () => {
   it('displays keyboard shortcuts help text', () => {
     render(<PadGrid {...defaultProps} />)
     
-    expect(screen.getByText('Keyboard shortcuts: Q-R, A-F, Z-V, 1-4')).toBeInTheDocument()
+    expect(screen.getByText('Keyboard shortcuts: Q-R, A-F, Z-V, 1-4 (hold Backspace to erase)')).toBeInTheDocument()
   })
 
   it('shows audio activation message initially', () => {
@@ -3,6 +3,7 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import { Sequencer } from '../Sequencer'
 import { createMockAudioEngine } from '../../test/mocks/AudioEngine'
 import type { AudioEngine } from '../../audio/AudioEngine'
+import { createPattern } from '../../audio/pattern'
 
 describe('Sequencer', () => {
   let mockAudioEngine: ReturnType<typeof createMockAudioEngine>
@@ -25,13 +26,7 @@ describe('Sequencer', () => {
   })
 
   it('displays current pattern name', () => {
-    mockAudioEngine.getCurrentPattern.mockReturnValue({
-      id: 'pattern-1',
-      name: 'Test Pattern',
-      length: 16,
-      steps: Array(16).fill(null).map(() => Array(16).fill(false)),
-      velocities: Array(16).fill(null).map(() => Array(16).fill(0.8))
-    })
+    mockAudioEngine.getCurrentPattern.mockReturnValue({ ...createPattern(1), name: 'Test Pattern' })
 
     render(<Sequencer {...defaultProps} />)
     
@@ -54,6 +49,18 @@ describe('Sequencer', () => {
     expect(stepNumbers).toHaveLength(16)
   })
 
+  it('shows the rows of the selected bank', () => {
+    render(<Sequencer {...defaultProps} selectedPad={33} />)
+
+    expect(screen.getByText('BANK C')).toHaveAttribute('aria-pressed', 'true')
+    expect(screen.getByText('Pad 34')).toBeInTheDocument()
+
+    fireEvent.click(screen.getByText('BANK A'))
+    expect(screen.getByText('Pad 1')).toBeInTheDocument()
+    expect(screen.queryByText('Pad 34')).not.toBeInTheDocument()
+    expect(document.querySelectorAll('.w-20.p-2')).toHaveLength(16)
+  })
+
   it('highlights selected pad', () => {
     render(<Sequencer {...defaultProps} selectedPad={5} />)
     
@@ -86,13 +93,7 @@ describe('Sequencer', () => {
 
   it('clears selected pad when Clear Pad button is clicked', () => {
     // Mock pattern with some active steps
-    const mockPattern = {
-      id: 'pattern-1',
-      name: 'Pattern 1',
-      length: 16,
-      steps: Array(16).fill(null).map(() => Array(16).fill(false)),
-      velocities: Array(16).fill(null).map(() => Array(16).fill(0.8))
-    }
+    const mockPattern = createPattern(1)
     // Set some steps as active for pad 0
     mockPattern.steps[0][0] = true
     mockPattern.steps[0][4] = true
@@ -113,13 +114,7 @@ describe('Sequencer', () => {
 
   it('clears all pads when Clear All button is clicked', () => {
     // Mock pattern with some active steps
-    const mockPattern = {
-      id: 'pattern-1',
-      name: 'Pattern 1',
-      length: 16,
-      steps: Array(16).fill(null).map(() => Array(16).fill(false)),
-      velocities: Array(16).fill(null).map(() => Array(16).fill(0.8))
-    }
+    const mockPattern = createPattern(1)
     // Set some steps as active across different pads
     mockPattern.steps[0][0] = true
     mockPattern.steps[1][4] = true
@@ -147,28 +142,252 @@ describe('Sequencer', () => {
     expect(mockAudioEngine.addPattern).toHaveBeenCalled()
   })
 
+  it('switches the current pattern from the pattern selector', () => {
+    mockAudioEngine.addPattern()
+    render(<Sequencer {...defaultProps} />)
+
+    fireEvent.change(screen.getByLabelText('Current pattern'), { target: { value: '1' } })
+
+    expect(mockAudioEngine.setCurrentPattern).toHaveBeenCalledWith(1)
+    expect(screen.getByText('Pattern: Pattern 2')).toBeInTheDocument()
+  })
+
   it('displays pattern length', () => {
-    mockAudioEngine.getCurrentPattern.mockReturnValue({
-      id: 'pattern-1',
-      name: 'Pattern 1',
-      length: 32,
-      steps: Array(16).fill(null).map(() => Array(32).fill(false)),
-      velocities: Array(16).fill(null).map(() => Array(32).fill(0.8))
-    })
+    mockAudioEngine.getCurrentPattern.mockReturnValue(createPattern(1, 32))
 
     render(<Sequencer {...defaultProps} />)
     
     expect(screen.getByText('Pattern Length: 32 steps')).toBeInTheDocument()
   })
 
+  it('changes the pattern length', () => {
+    render(<Sequencer {...defaultProps} />)
+
+    fireEvent.change(screen.getByLabelText('Pattern length'), { target: { value: '24' } })
+
+    expect(mockAudioEngine.setPatternLength).toHaveBeenCalledWith(24)
+    expect(screen.getByText('Pattern Length: 24 steps')).toBeInTheDocument()
+  })
+
+  it('changes the number of bars', () => {
+    render(<Sequencer {...defaultProps} />)
+
+    fireEvent.change(screen.getByLabelText('Pattern bars'), { target: { value: '2' } })
+
+    expect(mockAudioEngine.setPatternBars).toHaveBeenCalledWith(2)
+    expect(screen.getByText('Pattern Length: 32 steps')).toBeInTheDocument()
+  })
+
+  it('changes the time signature and reflows the grid', () => {
+    render(<Sequencer {...defaultProps} />)
+
+    fireEvent.change(screen.getByLabelText('Time signature'), { target: { value: '7/8' } })
+
+    expect(mockAudioEngine.setPatternTimeSignature).toHaveBeenCalledWith(7, 8)
+    expect(screen.getByText('Pattern Length: 14 steps')).toBeInTheDocument()
+    expect(document.querySelectorAll('.w-8.text-xs')).toHaveLength(14)
+  })
+
+  it('disables resolutions that would split a step across the bar line', () => {
+    render(<Sequencer {...defaultProps} />)
+
+    fireEvent.change(screen.getByLabelText('Time signature'), { target: { value: '7/8' } })
+
+    expect(screen.getByRole('option', { name: '1/8T' })).toBeDisabled()
+    expect(screen.getByRole('option', { name: '1/16T' })).toBeEnabled()
+  })
+
+  it('changes the step resolution and regrids the pattern', () => {
+    mockAudioEngine.toggleStep(0, 4)
+
+    render(<Sequencer {...defaultProps} />)
+
+    fireEvent.change(screen.getByLabelText('Step resolution'), { target: { value: '16t' } })
+
+    expect(mockAudioEngine.setPatternResolution).toHaveBeenCalledWith('16t')
+    expect(screen.getByText('Pattern Length: 24 steps')).toBeInTheDocument()
+    // A hit on beat 2 stays on beat 2
+    expect(mockAudioEngine.getCurrentPattern().steps[0][6]).toBe(true)
+  })
+
+  it('refuses a resolution the pattern is too long for', () => {
+    const alertSpy = vi.spyOn(window, 'alert').mockImplementation(() => {})
+    mockAudioEngine.setPatternLength(64)
+    mockAudioEngine.toggleStep(0, 60)
+
+    render(<Sequencer {...defaultProps} />)
+
+    fireEvent.change(screen.getByLabelText('Step resolution'), { target: { value: '32n' } })
+
+    expect(alertSpy).toHaveBeenCalledWith(expect.stringContaining('would need 128 steps'))
+    expect(screen.getByText('Pattern Length: 64 steps')).toBeInTheDocument()
+    expect(screen.getByLabelText('Step resolution')).toHaveValue('16n')
+    expect(mockAudioEngine.getCurrentPattern().steps[0][60]).toBe(true)
+    alertSpy.mockRestore()
+  })
+
+  it('sets the pattern swing', () => {
+    render(<Sequencer {...defaultProps} />)
+
+    expect(screen.getByText('50%')).toBeInTheDocument()
+
+    fireEvent.change(screen.getByLabelText('Swing'), { target: { value: '62' } })
+
+    expect(mockAudioEngine.setPatternSwing).toHaveBeenCalledWith(62)
+    expect(screen.getByText('62%')).toBeInTheDocument()
+  })
+
+  it('nudges the timing of the selected pad\'s steps', () => {
+    mockAudioEngine.toggleStep(0, 2)
+
+    render(<Sequencer {...defaultProps} />)
+
+    fireEvent.click(screen.getByText('Timing'))
+    expect(screen.getByLabelText('Timing offset for step 1')).toBeDisabled()
+
+    const offset = screen.getByLabelText('Timing offset for step 3')
+    fireEvent.change(offset, { target: { value: '-12' } })
+
+    expect(mockAudioEngine.setStepOffset).toHaveBeenCalledWith(0, 2, -12)
+    expect(offset).toHaveValue(-12)
+  })
+
+  it('shades active steps by velocity', () => {
+    mockAudioEngine.toggleStep(0, 0)
+    mockAudioEngine.setStepVelocity(0, 0, 0.5)
+
+    render(<Sequencer {...defaultProps} />)
+
+    const firstStep = document.querySelector('.step') as HTMLElement
+    expect(firstStep.style.opacity).toBe('0.7')
+  })
+
+  it('sets an accent on shift-click', () => {
+    render(<Sequencer {...defaultProps} />)
+
+    fireEvent.click(document.querySelectorAll('.step')[3], { shiftKey: true })
+
+    expect(mockAudioEngine.toggleStep).toHaveBeenCalledWith(0, 3)
+    expect(mockAudioEngine.setStepVelocity).toHaveBeenCalledWith(0, 3, 1)
+    expect(screen.getByLabelText('Velocity for step 4')).toHaveAttribute('aria-valuenow', '100')
+  })
+
+  it('drags velocity bars in the velocity lane', () => {
+    mockAudioEngine.toggleStep(0, 1)
+
+    render(<Sequencer {...defaultProps} />)
+
+    const bar = screen.getByLabelText('Velocity for step 2')
+    bar.getBoundingClientRect = () => ({ top: 100, bottom: 164, height: 64 } as DOMRect)
+    fireEvent.pointerDown(bar, { buttons: 1, clientY: 148 })
+
+    expect(mockAudioEngine.setStepVelocity).toHaveBeenCalledWith(0, 1, 0.25)
+    expect(bar).toHaveAttribute('aria-valuenow', '25')
+  })
+
+  it('adjusts velocity from the keyboard and ignores inactive steps', () => {
+    mockAudioEngine.toggleStep(0, 1)
+
+    render(<Sequencer {...defaultProps} />)
+
+    fireEvent.keyDown(screen.getByLabelText('Velocity for step 2'), { key: 'ArrowUp' })
+    fireEvent.keyDown(screen.getByLabelText('Velocity for step 1'), { key: 'ArrowUp' })
+
+    expect(mockAudioEngine.setStepVelocity).toHaveBeenCalledTimes(1)
+    expect(mockAudioEngine.setStepVelocity).toHaveBeenCalledWith(0, 1, 0.85)
+  })
+
+  it('sets step probability and condition from their lanes', () => {
+    mockAudioEngine.toggleStep(0, 0)
+
+    render(<Sequencer {...defaultProps} />)
+
+    fireEvent.click(screen.getByText('Probability'))
+    fireEvent.change(screen.getByLabelText('Probability for step 1'), { target: { value: '40' } })
+    expect(mockAudioEngine.setStepProbability).toHaveBeenCalledWith(0, 0, 40)
+    expect(screen.getByLabelText('Probability for step 1')).toHaveValue(40)
+
+    fireEvent.click(screen.getByText('Condition'))
+    expect(screen.getByLabelText('Condition for step 2')).toBeDisabled()
+    fireEvent.change(screen.getByLabelText('Condition for step 1'), { target: { value: '3:4' } })
+    expect(mockAudioEngine.setStepCondition).toHaveBeenCalledWith(0, 0, '3:4')
+    expect(screen.getByLabelText('Condition for step 1')).toHaveValue('3:4')
+  })
+
+  it('sets ratchets and their ramp from the ratchet lane', () => {
+    mockAudioEngine.toggleStep(0, 0)
+
+    render(<Sequencer {...defaultProps} />)
+
+    fireEvent.click(screen.getByText('Ratchet'))
+    expect(screen.getByLabelText('Ratchet ramp for step 1')).toBeDisabled()
+
+    fireEvent.change(screen.getByLabelText('Ratchets for step 1'), { target: { value: '4' } })
+    expect(mockAudioEngine.setStepRatchet).toHaveBeenCalledWith(0, 0, 4, 'none')
+
+    fireEvent.change(screen.getByLabelText('Ratchet ramp for step 1'), { target: { value: 'up' } })
+    expect(mockAudioEngine.setStepRatchet).toHaveBeenLastCalledWith(0, 0, 4, 'up')
+    expect(screen.getByLabelText('Ratchet ramp for step 1')).toHaveValue('up')
+  })
+
+  it('locks and clears step parameters from the locks lane', () => {
+    mockAudioEngine.toggleStep(0, 0)
+
+    render(<Sequencer {...defaultProps} />)
+
+    fireEvent.click(screen.getByText('Locks'))
+    fireEvent.change(screen.getByLabelText('Lock parameter'), { target: { value: 'cutoff' } })
+    fireEvent.change(screen.getByLabelText('Lock for step 1'), { target: { value: '800' } })
+
+    expect(mockAudioEngine.setStepLock).toHaveBeenCalledWith(0, 0, 'cutoff', 800)
+    expect(mockAudioEngine.getCurrentPattern().locks[0][0]).toEqual({ cutoff: 800 })
+
+    // Other parameters of the same step stay unlocked
+    fireEvent.change(screen.getByLabelText('Lock parameter'), { target: { value: 'pitch' } })
+    expect(screen.getByLabelText('Lock for step 1')).toHaveValue(null)
+
+    fireEvent.change(screen.getByLabelText('Lock parameter'), { target: { value: 'cutoff' } })
+    fireEvent.change(screen.getByLabelText('Lock for step 1'), { target: { value: '' } })
+
+    expect(mockAudioEngine.setStepLock).toHaveBeenLastCalledWith(0, 0, 'cutoff', null)
+    expect(mockAudioEngine.getCurrentPattern().locks[0][0]).toBeNull()
+  })
+
+  it('keeps hit timing when changing resolution', () => {
+    mockAudioEngine.toggleStep(0, 1)
+    mockAudioEngine.setStepOffset(0, 1, 10)
+
+    render(<Sequencer {...defaultProps} />)
+
+    fireEvent.change(screen.getByLabelText('Step resolution'), { target: { value: '32n' } })
+
+    // Tick 58 lands on 32nd step 2 (tick 48) plus 10
+    expect(mockAudioEngine.getCurrentPattern().steps[0][2]).toBe(true)
+    expect(mockAudioEngine.getCurrentPattern().offsets[0][2]).toBe(10)
+  })
+
+  it('marks beat starts in triplet grids', () => {
+    mockAudioEngine.getCurrentPattern.mockReturnValue(createPattern(1, 12, undefined, '8t'))
+
+    render(<Sequencer {...defaultProps} />)
+
+    const stepNumbers = document.querySelectorAll('.w-8.text-xs')
+    expect(stepNumbers[3]).toHaveClass('font-bold')
+    expect(stepNumbers[4]).not.toHaveClass('font-bold')
+  })
+
+  it('separates bars in the grid', () => {
+    mockAudioEngine.getCurrentPattern.mockReturnValue(createPattern(1, 24, { numerator: 3, denominator: 4 }))
+
+    render(<Sequencer {...defaultProps} />)
+
+    const stepNumbers = document.querySelectorAll('.w-8.text-xs')
+    expect(stepNumbers[12]).toHaveClass('ml-2')
+    expect(stepNumbers[11]).not.toHaveClass('ml-2')
+  })
+
   it('renders correct number of steps based on pattern length', () => {
-    mockAudioEngine.getCurrentPattern.mockReturnValue({
-      id: 'pattern-1',
-      name: 'Pattern 1',
-      length: 8,
-      steps: Array(16).fill(null).map(() => Array(8).fill(false)),
-      velocities: Array(16).fill(null).map(() => Array(8).fill(0.8))
-    })
+    mockAudioEngine.getCurrentPattern.mockReturnValue(createPattern(1, 8))
 
     render(<Sequencer {...defaultProps} />)
     
@@ -193,9 +412,7 @@ describe('Sequencer', () => {
     mockAudioEngine.getSample.mockImplementation((padIndex: number) => ({
       id: `sample-${padIndex}`,
       name: `Sample ${padIndex + 1}`,
-      buffer: null,
-      startTime: 0,
-      endTime: 1,
+      layers: [{ name: '', buffer: null, startTime: 0, endTime: 1, velocityMin: 0, velocityMax: 1 }],
       volume: 0.8,
       pan: 0
     }))
@@ -214,13 +431,7 @@ describe('Sequencer', () => {
   })
 
   it('applies active class to active steps', () => {
-    const mockPattern = {
-      id: 'pattern-1',
-      name: 'Pattern 1',
-      length: 16,
-      steps: Array(16).fill(null).map(() => Array(16).fill(false)),
-      velocities: Array(16).fill(null).map(() => Array(16).fill(0.8))
-    }
+    const mockPattern = createPattern(1)
     // Set first step of first pad as active
     mockPattern.steps[0][0] = true
     
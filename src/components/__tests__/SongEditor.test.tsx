@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { SongEditor } from '../SongEditor'
+import { createMockAudioEngine } from '../../test/mocks/AudioEngine'
+import type { AudioEngine } from '../../audio/AudioEngine'
+
+describe('SongEditor', () => {
+  let mockAudioEngine: ReturnType<typeof createMockAudioEngine>
+
+  beforeEach(() => {
+    mockAudioEngine = createMockAudioEngine()
+    vi.clearAllMocks()
+  })
+
+  const renderEditor = () =>
+    render(<SongEditor audioEngine={mockAudioEngine as any as AudioEngine} />)
+
+  it('renders the song title and empty state', () => {
+    renderEditor()
+
+    expect(screen.getByText('SONG')).toBeInTheDocument()
+    expect(screen.getByText('No patterns in the song yet')).toBeInTheDocument()
+  })
+
+  it('adds the chosen pattern to the song', () => {
+    mockAudioEngine.addPattern()
+    renderEditor()
+
+    fireEvent.change(screen.getByLabelText('Pattern to add'), { target: { value: '1' } })
+    fireEvent.click(screen.getByText('Add to Song'))
+
+    expect(mockAudioEngine.addSongEntry).toHaveBeenCalledWith(1)
+    expect(document.querySelectorAll('.song-entry')).toHaveLength(1)
+    expect(screen.getByLabelText('Pattern for song entry 1')).toHaveValue('1')
+  })
+
+  it('updates repeat counts', () => {
+    mockAudioEngine.addSongEntry(0, 1)
+    renderEditor()
+
+    fireEvent.change(screen.getByLabelText('Repeats for song entry 1'), { target: { value: '4' } })
+
+    expect(mockAudioEngine.setSongEntryRepeats).toHaveBeenCalledWith(0, 4)
+    expect(screen.getByLabelText('Repeats for song entry 1')).toHaveValue(4)
+  })
+
+  it('reorders and removes entries', () => {
+    mockAudioEngine.addSongEntry(0, 1)
+    mockAudioEngine.addSongEntry(0, 2)
+    renderEditor()
+
+    fireEvent.click(screen.getAllByTitle('Move down')[0])
+    expect(mockAudioEngine.moveSongEntry).toHaveBeenCalledWith(0, 1)
+
+    fireEvent.click(screen.getAllByTitle('Move up')[1])
+    expect(mockAudioEngine.moveSongEntry).toHaveBeenCalledWith(1, -1)
+
+    fireEvent.click(screen.getAllByTitle('Remove')[0])
+    expect(mockAudioEngine.removeSongEntry).toHaveBeenCalledWith(0)
+    expect(document.querySelectorAll('.song-entry')).toHaveLength(1)
+  })
+
+  it('disables moving the first entry up and the last entry down', () => {
+    mockAudioEngine.addSongEntry(0, 1)
+    renderEditor()
+
+    expect(screen.getByTitle('Move up')).toBeDisabled()
+    expect(screen.getByTitle('Move down')).toBeDisabled()
+  })
+
+  it('toggles song mode', () => {
+    renderEditor()
+
+    const toggle = screen.getByText('Song Mode: OFF')
+    fireEvent.click(toggle)
+
+    expect(mockAudioEngine.setSongMode).toHaveBeenCalledWith(true)
+    expect(screen.getByText('Song Mode: ON')).toBeInTheDocument()
+  })
+
+  it('shows the total number of pattern passes', () => {
+    mockAudioEngine.addSongEntry(0, 2)
+    mockAudioEngine.addSongEntry(0, 3)
+    renderEditor()
+
+    expect(screen.getByText('2 entries, 5 pattern passes')).toBeInTheDocument()
+  })
+})
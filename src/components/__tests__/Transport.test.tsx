@@ -9,7 +9,9 @@ vi.mock('lucide-react', () => ({
   Play: ({ size, fill, ...props }: any) => <div data-testid="play-icon" {...props}>{fill ? 'filled' : 'outline'}</div>,
   Square: ({ size, ...props }: any) => <div data-testid="square-icon" {...props} />,
   Circle: ({ size, fill, ...props }: any) => <div data-testid="circle-icon" {...props}>{fill ? 'filled' : 'outline'}</div>,
-  RotateCcw: ({ size, ...props }: any) => <div data-testid="rotate-icon" {...props} />
+  RotateCcw: ({ size, ...props }: any) => <div data-testid="rotate-icon" {...props} />,
+  Timer: ({ size, ...props }: any) => <div data-testid="timer-icon" {...props} />,
+  Eraser: ({ size, ...props }: any) => <div data-testid="eraser-icon" {...props} />
 }))
 
 describe('Transport', () => {
@@ -39,6 +41,15 @@ describe('Transport', () => {
     expect(stepIndicators).toHaveLength(16)
   })
 
+  it('follows the current pattern length in the step indicator', () => {
+    mockAudioEngine.setPatternTimeSignature(3, 4)
+
+    render(<Transport audioEngine={mockAudioEngine as any as AudioEngine} />)
+
+    const stepIndicators = document.querySelectorAll('.w-3.h-3.rounded-full')
+    expect(stepIndicators).toHaveLength(12)
+  })
+
   it('renders BPM control', () => {
     render(<Transport audioEngine={mockAudioEngine as any as AudioEngine} />)
     
@@ -202,6 +213,128 @@ describe('Transport', () => {
     })
   })
 
+  it('sets the record quantize strength', () => {
+    render(<Transport audioEngine={mockAudioEngine as any as AudioEngine} />)
+
+    const input = screen.getByLabelText('Quantize strength')
+    expect(input).toHaveValue(100)
+
+    fireEvent.change(input, { target: { value: '60' } })
+
+    expect(mockAudioEngine.setQuantizeStrength).toHaveBeenCalledWith(60)
+    expect(input).toHaveValue(60)
+  })
+
+  it('chooses the record quantize grid and mode', () => {
+    render(<Transport audioEngine={mockAudioEngine as any as AudioEngine} />)
+
+    fireEvent.change(screen.getByLabelText('Record quantize'), { target: { value: '8t' } })
+    fireEvent.change(screen.getByLabelText('Record mode'), { target: { value: 'replace' } })
+
+    expect(mockAudioEngine.setRecordQuantize).toHaveBeenCalledWith('8t')
+    expect(mockAudioEngine.setRecordMode).toHaveBeenCalledWith('replace')
+    expect(screen.getByLabelText('Record quantize')).toHaveValue('8t')
+    expect(screen.getByLabelText('Record mode')).toHaveValue('replace')
+  })
+
+  it('controls the metronome and count-in', () => {
+    render(<Transport audioEngine={mockAudioEngine as any as AudioEngine} />)
+
+    fireEvent.click(screen.getByTitle('Metronome'))
+    fireEvent.change(screen.getByLabelText('Metronome level'), { target: { value: '0.5' } })
+    fireEvent.change(screen.getByLabelText('Count-in'), { target: { value: '2' } })
+
+    expect(mockAudioEngine.setMetronomeEnabled).toHaveBeenCalledWith(true)
+    expect(screen.getByTitle('Metronome')).toHaveAttribute('aria-pressed', 'true')
+    expect(mockAudioEngine.setMetronomeLevel).toHaveBeenCalledWith(0.5)
+    expect(mockAudioEngine.setCountInBars).toHaveBeenCalledWith(2)
+    expect(screen.getByLabelText('Count-in')).toHaveValue('2')
+  })
+
+  it('loads a click sample and switches back to the synth click', async () => {
+    render(<Transport audioEngine={mockAudioEngine as any as AudioEngine} />)
+
+    const file = new File([''], 'rim.wav', { type: 'audio/wav' })
+    fireEvent.change(screen.getByLabelText('Click sample'), { target: { files: [file] } })
+
+    await waitFor(() => {
+      expect(mockAudioEngine.loadMetronomeSample).toHaveBeenCalledWith(file)
+      expect(screen.getByText('rim.wav')).toBeInTheDocument()
+    })
+
+    fireEvent.click(screen.getByTitle('Use synth click'))
+
+    expect(mockAudioEngine.clearMetronomeSample).toHaveBeenCalled()
+    expect(screen.getByText('Synth click')).toBeInTheDocument()
+  })
+
+  it('shows the count-in status', async () => {
+    mockAudioEngine.getIsPlaying.mockReturnValue(true)
+    mockAudioEngine.getIsCountingIn.mockReturnValue(true)
+
+    render(<Transport audioEngine={mockAudioEngine as any as AudioEngine} />)
+
+    await waitFor(() => {
+      expect(screen.getByText('● COUNT IN')).toBeInTheDocument()
+    })
+    expect(screen.queryByText('▶ PLAY')).not.toBeInTheDocument()
+  })
+
+  it('holds erase only while the erase button is pressed', () => {
+    render(<Transport audioEngine={mockAudioEngine as any as AudioEngine} />)
+
+    const erase = screen.getByTestId('eraser-icon').closest('button')!
+    fireEvent.pointerDown(erase)
+
+    expect(mockAudioEngine.setEraseHeld).toHaveBeenCalledWith(true)
+    expect(erase).toHaveAttribute('aria-pressed', 'true')
+
+    fireEvent.pointerUp(erase)
+
+    expect(mockAudioEngine.setEraseHeld).toHaveBeenLastCalledWith(false)
+    expect(erase).toHaveAttribute('aria-pressed', 'false')
+  })
+
+  it('keeps erase held when the pointer leaves the button', () => {
+    render(<Transport audioEngine={mockAudioEngine as any as AudioEngine} />)
+
+    const erase = screen.getByTestId('eraser-icon').closest('button')!
+    fireEvent.pointerDown(erase)
+    fireEvent.pointerLeave(erase)
+
+    expect(mockAudioEngine.setEraseHeld).not.toHaveBeenCalledWith(false)
+    expect(erase).toHaveAttribute('aria-pressed', 'true')
+  })
+
+  it('latches erase on until latch is pressed again', () => {
+    render(<Transport audioEngine={mockAudioEngine as any as AudioEngine} />)
+
+    const erase = screen.getByTestId('eraser-icon').closest('button')!
+    const latch = screen.getByText('LATCH')
+    fireEvent.click(latch)
+
+    expect(mockAudioEngine.setEraseLatched).toHaveBeenCalledWith(true)
+    expect(latch).toHaveAttribute('aria-pressed', 'true')
+    expect(erase).toHaveAttribute('aria-pressed', 'true')
+
+    fireEvent.click(latch)
+
+    expect(mockAudioEngine.setEraseLatched).toHaveBeenLastCalledWith(false)
+    expect(erase).toHaveAttribute('aria-pressed', 'false')
+  })
+
+  it('toggles fill mode', () => {
+    render(<Transport audioEngine={mockAudioEngine as any as AudioEngine} />)
+
+    const fill = screen.getByText('FILL')
+    expect(fill).toHaveAttribute('aria-pressed', 'false')
+
+    fireEvent.click(fill)
+
+    expect(mockAudioEngine.setFillActive).toHaveBeenCalledWith(true)
+    expect(fill).toHaveAttribute('aria-pressed', 'true')
+  })
+
   it('highlights current step', async () => {
     mockAudioEngine.getCurrentStep.mockReturnValue(5)
     
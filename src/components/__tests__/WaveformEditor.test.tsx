@@ -36,9 +36,7 @@ describe('WaveformEditor', () => {
     mockAudioEngine.getSample.mockReturnValue({
       id: 'sample-0',
       name: 'Pad 1',
-      buffer: null,
-      startTime: 0,
-      endTime: 1,
+      layers: [{ name: '', buffer: null, startTime: 0, endTime: 1, velocityMin: 0, velocityMax: 1 }],
       volume: 0.8,
       pan: 0
     })
@@ -68,9 +66,7 @@ describe('WaveformEditor', () => {
     mockAudioEngine.getSample.mockReturnValue({
       id: 'sample-0',
       name: 'Kick.wav',
-      buffer: mockBuffer,
-      startTime: 0,
-      endTime: 1,
+      layers: [{ name: '', buffer: mockBuffer, startTime: 0, endTime: 1, velocityMin: 0, velocityMax: 1 }],
       volume: 0.8,
       pan: 0
     })
@@ -94,9 +90,7 @@ describe('WaveformEditor', () => {
     mockAudioEngine.getSample.mockReturnValue({
       id: 'sample-0',
       name: 'Kick.wav',
-      buffer: mockBuffer,
-      startTime: 0,
-      endTime: 1,
+      layers: [{ name: '', buffer: mockBuffer, startTime: 0, endTime: 1, velocityMin: 0, velocityMax: 1 }],
       volume: 0.8,
       pan: 0
     })
@@ -123,9 +117,7 @@ describe('WaveformEditor', () => {
     mockAudioEngine.getSample.mockReturnValue({
       id: 'sample-0',
       name: 'Kick.wav',
-      buffer: mockBuffer,
-      startTime: 0,
-      endTime: 1,
+      layers: [{ name: '', buffer: mockBuffer, startTime: 0, endTime: 1, velocityMin: 0, velocityMax: 1 }],
       volume: 0.8,
       pan: 0
     })
@@ -147,9 +139,7 @@ describe('WaveformEditor', () => {
     mockAudioEngine.getSample.mockReturnValue({
       id: 'sample-0',
       name: 'Kick.wav',
-      buffer: mockBuffer,
-      startTime: 0,
-      endTime: 1,
+      layers: [{ name: '', buffer: mockBuffer, startTime: 0, endTime: 1, velocityMin: 0, velocityMax: 1 }],
       volume: 0.8,
       pan: 0
     })
@@ -171,9 +161,7 @@ describe('WaveformEditor', () => {
     mockAudioEngine.getSample.mockReturnValue({
       id: 'sample-0',
       name: 'Kick.wav',
-      buffer: mockBuffer,
-      startTime: 0,
-      endTime: 1,
+      layers: [{ name: '', buffer: mockBuffer, startTime: 0, endTime: 1, velocityMin: 0, velocityMax: 1 }],
       volume: 0.8,
       pan: 0
     })
@@ -183,7 +171,7 @@ describe('WaveformEditor', () => {
     const startTimeSlider = screen.getByLabelText('Start Time')
     fireEvent.change(startTimeSlider, { target: { value: '0.2' } })
     
-    expect(mockAudioEngine.setSampleProperty).toHaveBeenCalledWith(0, 'startTime', 0.2)
+    expect(mockAudioEngine.setLayerProperty).toHaveBeenCalledWith(0, 0, 'startTime', 0.2)
   })
 
   it('handles end time slider change', () => {
@@ -195,9 +183,7 @@ describe('WaveformEditor', () => {
     mockAudioEngine.getSample.mockReturnValue({
       id: 'sample-0',
       name: 'Kick.wav',
-      buffer: mockBuffer,
-      startTime: 0,
-      endTime: 1,
+      layers: [{ name: '', buffer: mockBuffer, startTime: 0, endTime: 1, velocityMin: 0, velocityMax: 1 }],
       volume: 0.8,
       pan: 0
     })
@@ -207,7 +193,7 @@ describe('WaveformEditor', () => {
     const endTimeSlider = screen.getByLabelText('End Time')
     fireEvent.change(endTimeSlider, { target: { value: '0.8' } })
     
-    expect(mockAudioEngine.setSampleProperty).toHaveBeenCalledWith(0, 'endTime', 0.8)
+    expect(mockAudioEngine.setLayerProperty).toHaveBeenCalledWith(0, 0, 'endTime', 0.8)
   })
 
   it('handles volume slider change', () => {
@@ -219,9 +205,7 @@ describe('WaveformEditor', () => {
     mockAudioEngine.getSample.mockReturnValue({
       id: 'sample-0',
       name: 'Kick.wav',
-      buffer: mockBuffer,
-      startTime: 0,
-      endTime: 1,
+      layers: [{ name: '', buffer: mockBuffer, startTime: 0, endTime: 1, velocityMin: 0, velocityMax: 1 }],
       volume: 0.8,
       pan: 0
     })
@@ -234,6 +218,111 @@ describe('WaveformEditor', () => {
     expect(mockAudioEngine.setSampleProperty).toHaveBeenCalledWith(0, 'volume', 0.6)
   })
 
+  it('sets the pad\'s choke group', () => {
+    mockAudioEngine.getSample.mockReturnValue({
+      id: 'sample-0',
+      name: 'OpenHat.wav',
+      layers: [{ name: '', buffer: { get: vi.fn().mockReturnValue(null), duration: 1 }, startTime: 0, endTime: 1, velocityMin: 0, velocityMax: 1 }],
+      volume: 0.8,
+      pan: 0,
+      chokeGroup: 0
+    })
+
+    render(<WaveformEditor audioEngine={mockAudioEngine} selectedPad={0} />)
+
+    fireEvent.change(screen.getByLabelText('Choke Group'), { target: { value: '2' } })
+
+    expect(mockAudioEngine.setSampleProperty).toHaveBeenCalledWith(0, 'chokeGroup', 2)
+  })
+
+  it('edits the trim and velocity range of each layer', async () => {
+    await mockAudioEngine.loadSample(0, new File([''], 'snare-soft.wav'))
+    await mockAudioEngine.loadSample(0, new File([''], 'snare-hard.wav'), 1)
+    mockAudioEngine.setLayerProperty(0, 0, 'buffer', { get: vi.fn().mockReturnValue(null), duration: 1 })
+    mockAudioEngine.setLayerProperty(0, 1, 'buffer', { get: vi.fn().mockReturnValue(null), duration: 2 })
+
+    render(<WaveformEditor audioEngine={mockAudioEngine} selectedPad={0} />)
+
+    fireEvent.click(screen.getByText('LAYER 2'))
+
+    expect(screen.getByText('LAYER 2')).toHaveAttribute('aria-pressed', 'true')
+    expect(screen.getByText('snare-hard.wav')).toBeInTheDocument()
+    // Adding the second layer split the velocity range between the two
+    expect(screen.getByText('Plays hits from 50% to 100%')).toBeInTheDocument()
+
+    fireEvent.change(screen.getByLabelText('Start Time'), { target: { value: '0.25' } })
+    fireEvent.change(screen.getByLabelText('Velocity Min'), { target: { value: '0.6' } })
+
+    expect(mockAudioEngine.setLayerProperty).toHaveBeenCalledWith(0, 1, 'startTime', 0.25)
+    expect(mockAudioEngine.setLayerProperty).toHaveBeenCalledWith(0, 1, 'velocityMin', 0.6)
+    expect(screen.getByText('0.50s (start)')).toBeInTheDocument()
+
+    fireEvent.click(screen.getByLabelText('Remove layer'))
+
+    expect(mockAudioEngine.removeSampleLayer).toHaveBeenCalledWith(0, 1)
+    expect(screen.queryByText('LAYER 2')).not.toBeInTheDocument()
+  })
+
+  it('tunes the pad in semitones and cents', () => {
+    mockAudioEngine.setLayerProperty(0, 0, 'buffer', { get: vi.fn().mockReturnValue(null), duration: 1 })
+
+    render(<WaveformEditor audioEngine={mockAudioEngine} selectedPad={0} />)
+
+    fireEvent.change(screen.getByLabelText('Coarse Tune'), { target: { value: '-5' } })
+    fireEvent.change(screen.getByLabelText('Fine Tune'), { target: { value: '12' } })
+
+    expect(mockAudioEngine.setSampleProperty).toHaveBeenCalledWith(0, 'tuneCoarse', -5)
+    expect(mockAudioEngine.setSampleProperty).toHaveBeenCalledWith(0, 'tuneFine', 12)
+    expect(screen.getByText('-5 st')).toBeInTheDocument()
+    expect(screen.getByText('+12 ct')).toBeInTheDocument()
+  })
+
+  it('edits the amplitude envelope', () => {
+    mockAudioEngine.setLayerProperty(0, 0, 'buffer', { get: vi.fn().mockReturnValue(null), duration: 1 })
+
+    render(<WaveformEditor audioEngine={mockAudioEngine} selectedPad={0} />)
+
+    fireEvent.change(screen.getByLabelText('Attack'), { target: { value: '0.05' } })
+    fireEvent.change(screen.getByLabelText('Sustain'), { target: { value: '0.4' } })
+
+    expect(mockAudioEngine.setSampleProperty).toHaveBeenCalledWith(0, 'attack', 0.05)
+    expect(mockAudioEngine.setSampleProperty).toHaveBeenCalledWith(0, 'sustain', 0.4)
+    expect(screen.getByText('50 ms')).toBeInTheDocument()
+    expect(screen.getByText('40%')).toBeInTheDocument()
+  })
+
+  it('sets the pad filter', () => {
+    mockAudioEngine.setLayerProperty(0, 0, 'buffer', { get: vi.fn().mockReturnValue(null), duration: 1 })
+
+    render(<WaveformEditor audioEngine={mockAudioEngine} selectedPad={0} />)
+
+    expect(screen.getByText('20.0 kHz')).toBeInTheDocument()
+
+    fireEvent.change(screen.getByLabelText('Type'), { target: { value: 'highpass' } })
+    // Halfway along the slider is the geometric middle of 20 Hz–20 kHz
+    fireEvent.change(screen.getByLabelText('Cutoff'), { target: { value: '0.5' } })
+    fireEvent.change(screen.getByLabelText('Env Amount'), { target: { value: '-0.5' } })
+
+    expect(mockAudioEngine.setSampleProperty).toHaveBeenCalledWith(0, 'filterType', 'highpass')
+    expect(mockAudioEngine.setSampleProperty).toHaveBeenCalledWith(0, 'filterCutoff', 632)
+    expect(mockAudioEngine.setSampleProperty).toHaveBeenCalledWith(0, 'filterEnvAmount', -0.5)
+    expect(screen.getByText('632 Hz')).toBeInTheDocument()
+  })
+
+  it('switches a pad to poly voices', () => {
+    mockAudioEngine.setLayerProperty(0, 0, 'buffer', { get: vi.fn().mockReturnValue(null), duration: 3 })
+
+    render(<WaveformEditor audioEngine={mockAudioEngine} selectedPad={0} />)
+
+    expect(screen.queryByLabelText('Voice count')).not.toBeInTheDocument()
+    fireEvent.change(screen.getByLabelText('Voices'), { target: { value: 'poly' } })
+    fireEvent.change(screen.getByLabelText('Voice count'), { target: { value: '6' } })
+
+    expect(mockAudioEngine.setSampleProperty).toHaveBeenCalledWith(0, 'voiceMode', 'poly')
+    expect(mockAudioEngine.setSampleProperty).toHaveBeenCalledWith(0, 'voiceCount', 6)
+    expect(screen.getByText('Up to 6 hits ring out together')).toBeInTheDocument()
+  })
+
   it('handles normalize button click', () => {
     const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
     
@@ -245,9 +334,7 @@ describe('WaveformEditor', () => {
     mockAudioEngine.getSample.mockReturnValue({
       id: 'sample-0',
       name: 'Kick.wav',
-      buffer: mockBuffer,
-      startTime: 0,
-      endTime: 1,
+      layers: [{ name: '', buffer: mockBuffer, startTime: 0, endTime: 1, velocityMin: 0, velocityMax: 1 }],
       volume: 0.8,
       pan: 0
     })
@@ -272,9 +359,7 @@ describe('WaveformEditor', () => {
     mockAudioEngine.getSample.mockReturnValue({
       id: 'sample-0',
       name: 'Kick.wav',
-      buffer: mockBuffer,
-      startTime: 0,
-      endTime: 1,
+      layers: [{ name: '', buffer: mockBuffer, startTime: 0, endTime: 1, velocityMin: 0, velocityMax: 1 }],
       volume: 0.8,
       pan: 0
     })
@@ -297,9 +382,7 @@ describe('WaveformEditor', () => {
     mockAudioEngine.getSample.mockReturnValue({
       id: 'sample-0',
       name: 'Kick.wav',
-      buffer: mockBuffer,
-      startTime: 0,
-      endTime: 1,
+      layers: [{ name: '', buffer: mockBuffer, startTime: 0, endTime: 1, velocityMin: 0, velocityMax: 1 }],
       volume: 0.8,
       pan: 0
     })
@@ -324,9 +407,7 @@ describe('WaveformEditor', () => {
     mockAudioEngine.getSample.mockReturnValue({
       id: 'sample-0',
       name: 'Kick.wav',
-      buffer: mockBuffer,
-      startTime: 0,
-      endTime: 1,
+      layers: [{ name: '', buffer: mockBuffer, startTime: 0, endTime: 1, velocityMin: 0, velocityMax: 1 }],
       volume: 0.8,
       pan: 0
     })
@@ -352,9 +433,7 @@ describe('WaveformEditor', () => {
     mockAudioEngine.getSample.mockReturnValue({
       id: 'sample-0',
       name: 'Kick.wav',
-      buffer: mockBuffer,
-      startTime: 0,
-      endTime: 1,
+      layers: [{ name: '', buffer: mockBuffer, startTime: 0, endTime: 1, velocityMin: 0, velocityMax: 1 }],
       volume: 0.8,
       pan: 0
     })
@@ -377,9 +456,7 @@ describe('WaveformEditor', () => {
     mockAudioEngine.getSample.mockReturnValue({
       id: 'sample-0',
       name: 'Kick.wav',
-      buffer: mockBuffer,
-      startTime: 0,
-      endTime: 1,
+      layers: [{ name: '', buffer: mockBuffer, startTime: 0, endTime: 1, velocityMin: 0, velocityMax: 1 }],
       volume: 0.8,
       pan: 0
     })
@@ -400,9 +477,7 @@ describe('WaveformEditor', () => {
     mockAudioEngine.getSample.mockReturnValue({
       id: 'sample-0',
       name: 'Kick.wav',
-      buffer: mockBuffer,
-      startTime: 0.2,
-      endTime: 0.8,
+      layers: [{ name: '', buffer: mockBuffer, startTime: 0.2, endTime: 0.8, velocityMin: 0, velocityMax: 1 }],
       volume: 0.8,
       pan: 0
     })
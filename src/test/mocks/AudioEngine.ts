@@ -1,5 +1,7 @@
 import { vi } from 'vitest'
-import type { Sample, Pattern, Project, AudioEngine } from '../../audio/AudioEngine'
+import type { Sample, Pattern, Project, CountInBars, LockParam, RatchetRamp, RecordMode, RecordQuantize, SongEntry, StepCondition, StepResolution, VelocityCurve, AudioEngine } from '../../audio/AudioEngine'
+import type { SerializedProject } from '../../audio/projectFormat'
+import { DEFAULT_PAD_SETTINGS, MAX_PATTERN_LENGTH, PAD_COUNT, applyVelocityCurve, changePatternResolution, createPattern, createSampleLayer, fitsTimeSignature, getResolutionLength, getStepsPerBar, resizePattern, splitVelocityRanges, updateStepLocks } from '../../audio/pattern'
 
 export class MockAudioEngine implements Partial<AudioEngine> {
   private samples: Sample[] = []
@@ -9,40 +11,56 @@ export class MockAudioEngine implements Partial<AudioEngine> {
   private isRecording = false
   private currentStep = 0
   private bpm = 120
+  private quantizeStrength = 100
+  private fillActive = false
+  private eraseHeld = false
+  private eraseLatched = false
+  private recordQuantize: RecordQuantize = 'step'
+  private recordMode: RecordMode = 'overdub'
+  private metronomeEnabled = false
+  private metronomeLevel = 0.7
+  private countInBars: CountInBars = 1
+  private metronomeSampleName: string | null = null
+  private noteRepeatEnabled = false
+  private noteRepeatRate: StepResolution = '16n'
+  private velocityCurve: VelocityCurve = 'linear'
+  private fullLevel = false
+  private song: SongEntry[] = []
+  private songMode = false
 
   constructor() {
     // Initialize mock samples
-    for (let i = 0; i < 16; i++) {
+    for (let i = 0; i < PAD_COUNT; i++) {
       this.samples.push({
         id: `sample-${i}`,
         name: `Pad ${i + 1}`,
-        buffer: null,
-        startTime: 0,
-        endTime: 1,
+        layers: [createSampleLayer()],
         volume: 0.8,
-        pan: 0
+        pan: 0,
+        ...DEFAULT_PAD_SETTINGS
       })
     }
 
     // Initialize default pattern
-    this.patterns.push({
-      id: 'pattern-1',
-      name: 'Pattern 1',
-      length: 16,
-      steps: Array(16).fill(null).map(() => Array(16).fill(false)),
-      velocities: Array(16).fill(null).map(() => Array(16).fill(0.8))
-    })
+    this.patterns.push(createPattern(1))
   }
 
   init = vi.fn().mockResolvedValue(undefined)
   dispose = vi.fn()
   
-  loadSample = vi.fn().mockImplementation(async (padIndex: number, file: File) => {
-    this.samples[padIndex] = {
-      ...this.samples[padIndex],
+  loadSample = vi.fn().mockImplementation(async (padIndex: number, file: File, layerIndex: number = 0) => {
+    const sample = this.samples[padIndex]
+    const layers = sample.layers.slice()
+    layers[layerIndex] = {
+      ...(layers[layerIndex] ?? createSampleLayer()),
       name: file.name,
       buffer: {} as any // Mock buffer
     }
+    this.samples[padIndex] = {
+      ...sample,
+      name: layerIndex === 0 ? file.name : sample.name,
+      layers: layers.length > sample.layers.length ? splitVelocityRanges(layers) : layers
+    }
   })
 
   getSample = vi.fn().mockImplementation((padIndex: number) => this.samples[padIndex])
@@ -58,16 +76,36 @@ export class MockAudioEngine implements Partial<AudioEngine> {
     this.currentPattern = index
   })
   addPattern = vi.fn().mockImplementation(() => {
-    const newPattern: Pattern = {
-      id: `pattern-${this.patterns.length + 1}`,
-      name: `Pattern ${this.patterns.length + 1}`,
-      length: 16,
-      steps: Array(16).fill(null).map(() => Array(16).fill(false)),
-      velocities: Array(16).fill(null).map(() => Array(16).fill(0.8))
-    }
+    const newPattern: Pattern = createPattern(this.patterns.length + 1)
     this.patterns.push(newPattern)
     return newPattern
   })
+  setPatternLength = vi.fn().mockImplementation((length: number) => {
+    this.patterns[this.currentPattern] = resizePattern(this.patterns[this.currentPattern], length)
+  })
+  setPatternBars = vi.fn().mockImplementation((bars: number) => {
+    const pattern = this.patterns[this.currentPattern]
+    this.patterns[this.currentPattern] = resizePattern(pattern, bars * getStepsPerBar(pattern.timeSignature, pattern.resolution))
+  })
+  // Keeps the bar count (rounded up), like the engine
+  setPatternTimeSignature = vi.fn().mockImplementation((numerator: number, denominator: number) => {
+    const pattern = this.patterns[this.currentPattern]
+    const timeSignature = { numerator, denominator }
+    if (!fitsTimeSignature(timeSignature, pattern.resolution)) return false
+    const bars = Math.max(1, Math.ceil(pattern.length / getStepsPerBar(pattern.timeSignature, pattern.resolution)))
+    this.patterns[this.currentPattern] = resizePattern({ ...pattern, timeSignature }, bars * getStepsPerBar(timeSignature, pattern.resolution))
+    return true
+  })
+  setPatternResolution = vi.fn().mockImplementation((resolution: StepResolution) => {
+    const pattern = this.patterns[this.currentPattern]
+    if (!fitsTimeSignature(pattern.timeSignature, resolution)) return false
+    if (getResolutionLength(pattern, resolution) > MAX_PATTERN_LENGTH) return false
+    this.patterns[this.currentPattern] = changePatternResolution(pattern, resolution)
+    return true
+  })
+  setPatternSwing = vi.fn().mockImplementation((swing: number) => {
+    this.patterns[this.currentPattern] = { ...this.patterns[this.currentPattern], swing }
+  })
   getPatterns = vi.fn().mockImplementation(() => this.patterns)
   
   toggleStep = vi.fn().mockImplementation((padIndex: number, stepIndex: number) => {
@@ -80,6 +118,59 @@ export class MockAudioEngine implements Partial<AudioEngine> {
     pattern.velocities[padIndex][stepIndex] = velocity
   })
 
+  setStepOffset = vi.fn().mockImplementation((padIndex: number, stepIndex: number, offset: number) => {
+    const pattern = this.patterns[this.currentPattern]
+    pattern.offsets[padIndex][stepIndex] = offset
+  })
+
+  setStepProbability = vi.fn().mockImplementation((padIndex: number, stepIndex: number, probability: number) => {
+    const pattern = this.patterns[this.currentPattern]
+    pattern.probabilities[padIndex][stepIndex] = probability
+  })
+
+  setStepCondition = vi.fn().mockImplementation((padIndex: number, stepIndex: number, condition: StepCondition) => {
+    const pattern = this.patterns[this.currentPattern]
+    pattern.conditions[padIndex][stepIndex] = condition
+  })
+
+  setStepRatchet = vi.fn().mockImplementation((padIndex: number, stepIndex: number, count: number, ramp: RatchetRamp = 'none') => {
+    const pattern = this.patterns[this.currentPattern]
+    pattern.ratchets[padIndex][stepIndex] = count
+    pattern.ratchetRamps[padIndex][stepIndex] = ramp
+  })
+
+  setStepLock = vi.fn().mockImplementation((padIndex: number, stepIndex: number, param: LockParam, value: number | null) => {
+    const pattern = this.patterns[this.currentPattern]
+    pattern.locks[padIndex][stepIndex] = updateStepLocks(pattern.locks[padIndex][stepIndex], param, value)
+  })
+
+  getFillActive = vi.fn().mockImplementation(() => this.fillActive)
+  setFillActive = vi.fn().mockImplementation((active: boolean) => {
+    this.fillActive = active
+  })
+
+  // Song methods
+  getSong = vi.fn().mockImplementation(() => this.song)
+  addSongEntry = vi.fn().mockImplementation((patternIndex: number, repeats: number = 1) => {
+    this.song = [...this.song, { id: `song-entry-${this.song.length}`, patternId: this.patterns[patternIndex].id, repeats }]
+  })
+  removeSongEntry = vi.fn().mockImplementation((entryIndex: number) => {
+    this.song = this.song.filter((_, index) => index !== entryIndex)
+  })
+  moveSongEntry = vi.fn()
+  setSongEntryPattern = vi.fn()
+  setSongEntryRepeats = vi.fn().mockImplementation((entryIndex: number, repeats: number) => {
+    this.song = this.song.map((entry, index) => index === entryIndex ? { ...entry, repeats } : entry)
+  })
+  getSongMode = vi.fn().mockImplementation(() => this.songMode)
+  setSongMode = vi.fn().mockImplementation((enabled: boolean) => {
+    this.songMode = enabled
+  })
+  getSongPosition = vi.fn().mockReturnValue(0)
+  getSongPatternIndices = vi.fn().mockImplementation(() =>
+    this.song.flatMap(entry => Array(entry.repeats).fill(this.patterns.findIndex(p => p.id === entry.patternId)))
+  )
+
   // Transport methods
   play = vi.fn().mockImplementation(() => {
     this.isPlaying = true
@@ -94,6 +185,19 @@ export class MockAudioEngine implements Partial<AudioEngine> {
     this.isPlaying = false
   })
 
+  getRecordQuantize = vi.fn().mockImplementation(() => this.recordQuantize)
+  setRecordQuantize = vi.fn().mockImplementation((quantize: RecordQuantize) => {
+    this.recordQuantize = quantize
+  })
+  getRecordMode = vi.fn().mockImplementation(() => this.recordMode)
+  setRecordMode = vi.fn().mockImplementation((mode: RecordMode) => {
+    this.recordMode = mode
+  })
+  getQuantizeStrength = vi.fn().mockImplementation(() => this.quantizeStrength)
+  setQuantizeStrength = vi.fn().mockImplementation((strength: number) => {
+    this.quantizeStrength = strength
+  })
+
   startRecording = vi.fn().mockImplementation(() => {
     this.isRecording = true
   })
@@ -102,6 +206,59 @@ export class MockAudioEngine implements Partial<AudioEngine> {
     this.isRecording = false
   })
 
+  getIsCountingIn = vi.fn().mockReturnValue(false)
+  getEraseHeld = vi.fn().mockImplementation(() => this.eraseHeld)
+  setEraseHeld = vi.fn().mockImplementation((held: boolean) => {
+    this.eraseHeld = held
+  })
+  getEraseLatched = vi.fn().mockImplementation(() => this.eraseLatched)
+  setEraseLatched = vi.fn().mockImplementation((latched: boolean) => {
+    this.eraseLatched = latched
+  })
+  getEraseActive = vi.fn().mockImplementation(() => this.eraseHeld || this.eraseLatched)
+  setPadHeld = vi.fn()
+  getNoteRepeatEnabled = vi.fn().mockImplementation(() => this.noteRepeatEnabled)
+  setNoteRepeatEnabled = vi.fn().mockImplementation((enabled: boolean) => {
+    this.noteRepeatEnabled = enabled
+  })
+  getNoteRepeatRate = vi.fn().mockImplementation(() => this.noteRepeatRate)
+  setNoteRepeatRate = vi.fn().mockImplementation((rate: StepResolution) => {
+    this.noteRepeatRate = rate
+  })
+  getNoteRepeatActive = vi.fn().mockImplementation(() => this.noteRepeatEnabled && this.isPlaying)
+  getVelocityCurve = vi.fn().mockImplementation(() => this.velocityCurve)
+  setVelocityCurve = vi.fn().mockImplementation((curve: VelocityCurve) => {
+    this.velocityCurve = curve
+  })
+  getFullLevel = vi.fn().mockImplementation(() => this.fullLevel)
+  setFullLevel = vi.fn().mockImplementation((enabled: boolean) => {
+    this.fullLevel = enabled
+  })
+  getHitVelocity = vi.fn().mockImplementation((pressure: number) =>
+    this.fullLevel ? 1 : applyVelocityCurve(pressure, this.velocityCurve)
+  )
+
+  // Metronome methods
+  getMetronomeEnabled = vi.fn().mockImplementation(() => this.metronomeEnabled)
+  setMetronomeEnabled = vi.fn().mockImplementation((enabled: boolean) => {
+    this.metronomeEnabled = enabled
+  })
+  getMetronomeLevel = vi.fn().mockImplementation(() => this.metronomeLevel)
+  setMetronomeLevel = vi.fn().mockImplementation((level: number) => {
+    this.metronomeLevel = level
+  })
+  getCountInBars = vi.fn().mockImplementation(() => this.countInBars)
+  setCountInBars = vi.fn().mockImplementation((bars: CountInBars) => {
+    this.countInBars = bars
+  })
+  getMetronomeSampleName = vi.fn().mockImplementation(() => this.metronomeSampleName)
+  loadMetronomeSample = vi.fn().mockImplementation(async (file: File) => {
+    this.metronomeSampleName = file.name
+  })
+  clearMetronomeSample = vi.fn().mockImplementation(() => {
+    this.metronomeSampleName = null
+  })
+
   // Getters
   getIsPlaying = vi.fn().mockImplementation(() => this.isPlaying)
   getIsRecording = vi.fn().mockImplementation(() => this.isRecording)
@@ -118,7 +275,24 @@ export class MockAudioEngine implements Partial<AudioEngine> {
   // Sample property method
   setSampleProperty = vi.fn().mockImplementation((padIndex: number, property: string, value: any) => {
     if (this.samples[padIndex]) {
-      (this.samples[padIndex] as any)[property] = value
+      this.samples[padIndex] = { ...this.samples[padIndex], [property]: value }
+    }
+  })
+
+  setLayerProperty = vi.fn().mockImplementation((padIndex: number, layerIndex: number, property: string, value: any) => {
+    const sample = this.samples[padIndex]
+    this.samples[padIndex] = {
+      ...sample,
+      layers: sample.layers.map((layer, index) => (index === layerIndex ? { ...layer, [property]: value } : layer))
+    }
+  })
+
+  removeSampleLayer = vi.fn().mockImplementation((padIndex: number, layerIndex: number) => {
+    const sample = this.samples[padIndex]
+    const remaining = sample.layers.filter((_, index) => index !== layerIndex)
+    this.samples[padIndex] = {
+      ...sample,
+      layers: remaining.length > 0 ? splitVelocityRanges(remaining) : [createSampleLayer()]
     }
   })
 
@@ -129,7 +303,8 @@ export class MockAudioEngine implements Partial<AudioEngine> {
     samples: this.samples,
     patterns: this.patterns,
     currentPattern: this.currentPattern,
-    bpm: this.bpm
+    bpm: this.bpm,
+    song: this.song
   }))
   
   loadProject = vi.fn().mockImplementation((project: Project) => {
@@ -139,6 +314,31 @@ export class MockAudioEngine implements Partial<AudioEngine> {
     this.bpm = project.bpm
   })
 
+  exportSerializedProject = vi.fn().mockImplementation((name?: string): SerializedProject => {
+    const project = this.exportProject()
+    return {
+      ...project,
+      name: name ?? project.name,
+      formatVersion: 3,
+      samples: project.samples.map((sample: Sample) => ({
+        ...sample,
+        layers: sample.layers.map(({ buffer, ...layer }) => ({
+          ...layer,
+          audio: buffer ? 'UklGRg==' : null
+        }))
+      }))
+    }
+  })
+
+  importSerializedProject = vi.fn().mockImplementation(async (project: SerializedProject) => {
+    this.patterns = project.patterns
+    this.currentPattern = project.currentPattern
+    this.bpm = project.bpm
+  })
+
+  bounceToWav = vi.fn().mockResolvedValue(new Blob([], { type: 'audio/wav' }))
+  bounceStems = vi.fn().mockResolvedValue(new Blob([], { type: 'application/zip' }))
+
   // Mock internal methods for testing
   mockSetCurrentStep(step: number) {
     this.currentStep = step
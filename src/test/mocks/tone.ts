@@ -0,0 +1,266 @@
+import { vi } from 'vitest'
+
+// A stand-in for Tone.js, for tests that run the real AudioEngine. Audio
+// nodes do nothing; the transport keeps a timeline that tests move through
+// by hand with Transport.advance().
+
+const PPQ = 192
+
+interface TimelineEvent {
+  tick: number
+  // Repeating events fire every interval ticks from their tick
+  interval: number | null
+  once: boolean
+  callback: (time: number) => void
+}
+
+function toTicks(time: string | number): number {
+  return typeof time === 'string' && time.endsWith('i') ? parseInt(time, 10) : Number(time) * PPQ * 2
+}
+
+class FakeTransport {
+  PPQ = PPQ
+  bpm = { value: 120 }
+  ticks = 0
+  state: 'started' | 'stopped' | 'paused' = 'stopped'
+  private events = new Map<number, TimelineEvent>()
+  private nextId = 0
+
+  schedule = vi.fn((callback: (time: number) => void, time: string | number) =>
+    this.add({ tick: toTicks(time), interval: null, once: false, callback })
+  )
+
+  scheduleOnce = vi.fn((callback: (time: number) => void, time: string | number) =>
+    this.add({ tick: toTicks(time), interval: null, once: true, callback })
+  )
+
+  scheduleRepeat = vi.fn((callback: (time: number) => void, interval: string | number, start: string | number = 0) =>
+    this.add({ tick: toTicks(start), interval: toTicks(interval), once: false, callback })
+  )
+
+  clear = vi.fn((id: number) => {
+    this.events.delete(id)
+  })
+
+  start = vi.fn(() => {
+    this.state = 'started'
+  })
+
+  // Like Tone, stopping rewinds to the start but keeps the timeline
+  stop = vi.fn(() => {
+    this.state = 'stopped'
+    this.ticks = 0
+  })
+
+  pause = vi.fn(() => {
+    this.state = 'paused'
+  })
+
+  getTicksAtTime() {
+    return this.ticks
+  }
+
+  ticksToSeconds(ticks: number) {
+    return (60 / this.bpm.value) * (ticks / PPQ)
+  }
+
+  // Plays the timeline up to (and including) a tick, firing events in order,
+  // including ones scheduled by the events themselves
+  advance(to: number) {
+    for (let tick = this.ticks; tick <= to; tick++) {
+      this.ticks = tick
+      const fired = new Set<number>()
+      let due = this.dueAt(tick, fired)
+      while (due.length > 0) {
+        due.forEach(([id, event]) => {
+          fired.add(id)
+          if (event.once) this.events.delete(id)
+          event.callback(this.ticksToSeconds(tick))
+        })
+        due = this.dueAt(tick, fired)
+      }
+      Draw.flush(this.ticksToSeconds(tick))
+    }
+  }
+
+  reset() {
+    ToneBufferSource.instances = []
+    AmplitudeEnvelope.instances = []
+    Filter.instances = []
+    Draw.cancel()
+    this.events.clear()
+    this.ticks = 0
+    this.state = 'stopped'
+  }
+
+  private add(event: TimelineEvent): number {
+    const id = this.nextId++
+    this.events.set(id, event)
+    return id
+  }
+
+  private dueAt(tick: number, fired: Set<number>): [number, TimelineEvent][] {
+    return [...this.events.entries()].filter(([id, event]) => {
+      if (fired.has(id) || tick < event.tick) return false
+      return event.interval ? (tick - event.tick) % event.interval === 0 : tick === event.tick
+    })
+  }
+}
+
+// Draw callbacks run once the transport has played up to their time
+class FakeDraw {
+  private callbacks: { callback: () => void; time: number }[] = []
+
+  schedule = vi.fn((callback: () => void, time: number) => {
+    this.callbacks.push({ callback, time })
+    return this
+  })
+
+  cancel = vi.fn(() => {
+    this.callbacks = []
+    return this
+  })
+
+  flush(time: number) {
+    const due = this.callbacks.filter(event => event.time <= time)
+    this.callbacks = this.callbacks.filter(event => event.time > time)
+    due.forEach(({ callback }) => callback())
+  }
+}
+
+export const Draw = new FakeDraw()
+export const Transport = new FakeTransport()
+
+// Rejects the values Tone's params assert against. Silence (-Infinity dB)
+// is a finite gain, so only NaN fails the finite check.
+class FakeParam {
+  constructor(public value: number = 0, private minValue = -Infinity, private maxValue = Infinity) {}
+  setValueAtTime = vi.fn((value: number) => {
+    if (Number.isNaN(value)) {
+      throw new Error(`Value must be finite: ${value}`)
+    }
+    if (value < this.minValue || value > this.maxValue) {
+      throw new RangeError(`Value must be within [${this.minValue}, ${this.maxValue}], got: ${value}`)
+    }
+  })
+  cancelScheduledValues = vi.fn()
+  exponentialRampToValueAtTime = vi.fn()
+}
+
+class FakeNode {
+  numberOfOutputs = 1
+  connect() {
+    return this
+  }
+  toDestination() {
+    return this
+  }
+  toSeconds(time: number | string = 0) {
+    return Number(time)
+  }
+  dispose = vi.fn()
+}
+
+export class Panner extends FakeNode {
+  pan: FakeParam
+  constructor(pan = 0) {
+    super()
+    this.pan = new FakeParam(pan, -1, 1)
+  }
+}
+
+// Every filter made, so tests can find the one a hit swept
+export class Filter extends FakeNode {
+  static instances: Filter[] = []
+  frequency: FakeParam
+  Q = new FakeParam(1)
+  constructor(frequency = 20000, public type = 'lowpass') {
+    super()
+    this.frequency = new FakeParam(frequency)
+    Filter.instances.push(this)
+  }
+}
+
+export class Volume extends FakeNode {
+  volume: FakeParam
+  constructor(volume = 0) {
+    super()
+    this.volume = new FakeParam(volume)
+  }
+}
+
+// Every envelope made, so tests can find the one a hit opened
+export class AmplitudeEnvelope extends FakeNode {
+  static instances: AmplitudeEnvelope[] = []
+  constructor() {
+    super()
+    AmplitudeEnvelope.instances.push(this)
+  }
+  set = vi.fn()
+  triggerAttack = vi.fn()
+  triggerRelease = vi.fn()
+}
+
+export class Player extends FakeNode {
+  volume = new FakeParam(0)
+  playbackRate = 1
+  state = 'stopped'
+  loaded = false
+  buffer = null
+  start = vi.fn()
+  stop = vi.fn()
+}
+
+// Every source started, in order, so tests can look at the hits a voice played
+export class ToneBufferSource extends FakeNode {
+  static instances: ToneBufferSource[] = []
+  buffer: unknown
+  playbackRate: FakeParam
+  constructor(options: { url?: unknown; playbackRate?: number } = {}) {
+    super()
+    this.buffer = options.url
+    this.playbackRate = new FakeParam(options.playbackRate ?? 1)
+    ToneBufferSource.instances.push(this)
+  }
+  start = vi.fn()
+  stop = vi.fn()
+  // Sources ring for as long as the test cares
+  getStateAtTime = vi.fn(() => 'started')
+}
+
+export class ToneAudioBuffer {
+  loaded = true
+  constructor(private audio: unknown = null, readonly duration: number = 1) {}
+  get() {
+    return this.audio
+  }
+}
+
+export class Synth extends FakeNode {
+  triggerAttackRelease = vi.fn()
+}
+
+// Renders silence: runs the callback so tests can look at what it scheduled
+export const Offline = vi.fn(async (callback: () => void, _duration: number) => {
+  callback()
+  const audio = { numberOfChannels: 1, sampleRate: 44100, length: 0, getChannelData: () => new Float32Array(0) }
+  return { get: () => audio }
+})
+export const now = () => Transport.ticksToSeconds(Transport.ticks)
+export const immediate = now
+export const gainToDb = (gain: number) => 20 * Math.log10(gain)
+export const dbToGain = (db: number) => Math.pow(10, db / 20)
+export const start = vi.fn()
+// "Decodes" audio by handing the encoded bytes back, for tests to inspect
+const decodeAudioData = vi.fn(async (data: ArrayBuffer) => ({ encoded: data }))
+const context = {
+  state: 'running',
+  sampleRate: 44100,
+  get currentTime() {
+    return now()
+  },
+  decodeAudioData,
+  rawContext: { decodeAudioData }
+}
+export const getContext = () => context
+export const getDestination = () => ({ volume: new FakeParam(0), mute: false })
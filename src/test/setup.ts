@@ -59,4 +59,25 @@ Object.defineProperty(window, 'URL', {
     revokeObjectURL: vi.fn()
   },
   writable: true
-}) 
\ No newline at end of file
+})
+// jsdom has no PointerEvent, so fireEvent.pointer* would drop clientY, buttons, pressure etc.
+if (!window.PointerEvent) {
+  class MockPointerEvent extends MouseEvent {
+    pointerId: number
+    pointerType: string
+    pressure: number
+    width: number
+    height: number
+
+    constructor(type: string, init: PointerEventInit = {}) {
+      super(type, init)
+      this.pointerId = init.pointerId ?? 1
+      this.pointerType = init.pointerType ?? 'mouse'
+      this.pressure = init.pressure ?? 0
+      this.width = init.width ?? 1
+      this.height = init.height ?? 1
+    }
+  }
+
+  Object.defineProperty(window, 'PointerEvent', { value: MockPointerEvent, writable: true })
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Blob as NodeBlob } from 'node:buffer'
+import { createZip } from '../zip'
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer
+
+const readBlob = (blob: Blob) => blob.arrayBuffer()
+
+const readString = (view: DataView, offset: number, length: number) =>
+  new TextDecoder().decode(new Uint8Array(view.buffer, offset, length))
+
+describe('createZip', () => {
+  // jsdom's Blob can't be read back, Node's can
+  beforeEach(() => {
+    vi.stubGlobal('Blob', NodeBlob)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('stores an entry with its CRC-32, sizes and name', async () => {
+    const view = new DataView(await readBlob(createZip([{ name: 'check.txt', data: encode('123456789') }])))
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50)
+    expect(view.getUint16(8, true)).toBe(0) // stored
+    // The standard CRC-32 check value
+    expect(view.getUint32(14, true)).toBe(0xcbf43926)
+    expect(view.getUint32(18, true)).toBe(9)
+    expect(view.getUint32(22, true)).toBe(9)
+    expect(view.getUint16(26, true)).toBe(9)
+    expect(readString(view, 30, 9)).toBe('check.txt')
+    expect(readString(view, 39, 9)).toBe('123456789')
+  })
+
+  it('lists every entry in the central directory', async () => {
+    const entries = [
+      { name: '01_kick.wav', data: encode('kick') },
+      { name: '02_snare.wav', data: encode('snare!') }
+    ]
+    const view = new DataView(await readBlob(createZip(entries)))
+    const secondOffset = 30 + 11 + 4
+    const directoryOffset = secondOffset + 30 + 12 + 6
+
+    // End of central directory record
+    const end = view.byteLength - 22
+    expect(view.getUint32(end, true)).toBe(0x06054b50)
+    expect(view.getUint16(end + 8, true)).toBe(2)
+    expect(view.getUint16(end + 10, true)).toBe(2)
+    expect(view.getUint32(end + 12, true)).toBe(46 + 11 + 46 + 12)
+    expect(view.getUint32(end + 16, true)).toBe(directoryOffset)
+
+    // Central directory headers point back at their local headers
+    expect(view.getUint32(directoryOffset, true)).toBe(0x02014b50)
+    expect(view.getUint32(directoryOffset + 42, true)).toBe(0)
+    expect(readString(view, directoryOffset + 46, 11)).toBe('01_kick.wav')
+
+    const second = directoryOffset + 46 + 11
+    expect(view.getUint32(second, true)).toBe(0x02014b50)
+    expect(view.getUint32(second + 20, true)).toBe(6)
+    expect(view.getUint32(second + 42, true)).toBe(secondOffset)
+    expect(view.getUint32(secondOffset, true)).toBe(0x04034b50)
+    expect(readString(view, second + 46, 12)).toBe('02_snare.wav')
+  })
+
+  it('writes an empty archive as just the end record', async () => {
+    const blob = createZip([])
+
+    expect(blob.type).toBe('application/zip')
+    expect(blob.size).toBe(22)
+  })
+})